@@ -0,0 +1,251 @@
+/**
+ * Answer Format
+ *
+ * Checks that an answer follows the response convention in SYSTEM_PROMPT:
+ *
+ *   **Yes** - One or two sentences. [Citation]
+ *
+ * The bold lead is usually Yes/No but can be a short fact ("**4 hours**",
+ * "**AWS**"), so only its shape is checked. The one answer without a
+ * citation is "**N/A** - I don't have verified information about ...",
+ * given when nothing supports an answer.
+ *
+ * Claude submits generated answers as a StructuredAnswer through the
+ * submit_answer tool; the markdown above is rendered from it.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+// Longest bold lead we accept before it stops being a lead
+const MAX_LEAD_LENGTH = 40;
+
+const LEAD_PATTERN = /^\*\*([^*\n]+)\*\*\s+-\s+\S/;
+const CITATION_PATTERN = /\[[^\]\n]+\]/;
+
+/**
+ * Problems with an answer's format; empty when the answer is well formed
+ */
+export function validateAnswerFormat(answer: string): string[] {
+  const errors: string[] = [];
+  const trimmed = answer.trim();
+
+  const lead = trimmed.match(LEAD_PATTERN);
+  if (!lead) {
+    errors.push('Answer must start with a bold lead followed by " - ", e.g. "**Yes** - ..."');
+  } else if (lead[1].trim().length > MAX_LEAD_LENGTH) {
+    errors.push(`Bold lead must be at most ${MAX_LEAD_LENGTH} characters (e.g. Yes, No, 4 hours)`);
+  }
+
+  if (!CITATION_PATTERN.test(trimmed) && lead?.[1].trim() !== 'N/A') {
+    errors.push('Answer must cite its source in brackets, e.g. "[Security Homepage]", or lead with **N/A**');
+  }
+
+  return errors;
+}
+
+export const ANSWER_VERDICTS = ['Yes', 'No', 'Partial', 'N/A'] as const;
+export type AnswerVerdict = (typeof ANSWER_VERDICTS)[number];
+
+export interface AnswerCitation {
+  // Source as it is cited, e.g. "CC1.1.3 Human Resources Security, Employee Handbook"
+  source: string;
+  // Short quote from the source that supports the answer
+  excerpt?: string;
+}
+
+export interface StructuredAnswer {
+  verdict: AnswerVerdict;
+  // Bold lead for N/A answers that aren't yes/no ("4 hours", "AWS"); defaults to the verdict
+  lead?: string;
+  // One or two sentences, without citations
+  shortAnswer: string;
+  // Optional elaboration after the short answer
+  detail?: string;
+  citations: AnswerCitation[];
+  // 0-1: how well the sources support the answer
+  confidence: number;
+  // Someone should check this answer before it is sent
+  needsReview: boolean;
+}
+
+export const SUBMIT_ANSWER_TOOL = 'submit_answer';
+
+// Longest short answer, so it stays one or two sentences
+const MAX_SHORT_ANSWER_LENGTH = 500;
+// Longest citation excerpt, so it stays a quote rather than the whole page
+const MAX_EXCERPT_LENGTH = 300;
+
+/**
+ * Tool Claude answers with; its input is checked by validateStructuredAnswer
+ */
+export const submitAnswerTool: Anthropic.Tool = {
+  name: SUBMIT_ANSWER_TOOL,
+  description:
+    'Submit your final answer to the question. Call this exactly once, after any searches, instead of replying in text.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      verdict: {
+        type: 'string',
+        enum: [...ANSWER_VERDICTS],
+        description: 'Yes, No or Partial for yes/no questions; N/A when the question asks for a fact rather than yes/no',
+      },
+      lead: {
+        type: 'string',
+        description: `For N/A answers, a short fact to lead with, e.g. "4 hours" or "AWS" (at most ${MAX_LEAD_LENGTH} characters)`,
+      },
+      shortAnswer: {
+        type: 'string',
+        description: 'One or two sentences answering the question, without bracketed citations',
+      },
+      detail: {
+        type: 'string',
+        description: 'Optional elaboration, only when the question asks for more than the short answer covers',
+      },
+      citations: {
+        type: 'array',
+        description: 'Sources the answer is based on, cited as the context or tool results say to cite them',
+        items: {
+          type: 'object',
+          properties: {
+            source: { type: 'string', description: 'e.g. "CC1.1.3 Human Resources Security, Employee Handbook"' },
+            excerpt: {
+              type: 'string',
+              description: `The sentence or two from this source that supports the answer, quoted exactly (at most ${MAX_EXCERPT_LENGTH} characters)`,
+            },
+          },
+          required: ['source'],
+        },
+      },
+      confidence: {
+        type: 'number',
+        description: '0-1: how directly the sources support the answer (1 = stated outright, 0.5 = inferred, 0 = not found)',
+      },
+      needsReview: {
+        type: 'boolean',
+        description: 'True if a person should check the answer before it is sent, e.g. the sources are unclear or missing',
+      },
+    },
+    required: ['verdict', 'shortAnswer', 'citations', 'confidence', 'needsReview'],
+  },
+};
+
+/**
+ * Whether an answer says nothing supports one (N/A, confidence 0), the only
+ * answer that may cite no sources
+ */
+function isNoInformationAnswer(verdict: unknown, confidence: unknown): boolean {
+  return verdict === 'N/A' && confidence === 0;
+}
+
+/**
+ * Check a submit_answer input, returning the answer or what is wrong with it
+ */
+export function validateStructuredAnswer(
+  input: unknown
+): { answer: StructuredAnswer } | { errors: string[] } {
+  if (!input || typeof input !== 'object') return { errors: ['Answer must be an object'] };
+  const { verdict, lead, shortAnswer, detail, citations, confidence, needsReview } = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!ANSWER_VERDICTS.includes(verdict as AnswerVerdict)) {
+    errors.push(`verdict must be one of ${ANSWER_VERDICTS.join(', ')}`);
+  }
+  if (lead !== undefined && (typeof lead !== 'string' || lead.trim().length > MAX_LEAD_LENGTH)) {
+    errors.push(`lead must be a string of at most ${MAX_LEAD_LENGTH} characters`);
+  } else if (typeof lead === 'string' && lead.trim() && verdict !== 'N/A') {
+    errors.push('lead is only for N/A answers; Yes, No and Partial answers lead with their verdict');
+  }
+  if (typeof shortAnswer !== 'string' || !shortAnswer.trim()) {
+    errors.push('shortAnswer is required');
+  } else if (shortAnswer.length > MAX_SHORT_ANSWER_LENGTH) {
+    errors.push(`shortAnswer must be at most ${MAX_SHORT_ANSWER_LENGTH} characters; put the rest in detail`);
+  }
+  if (detail !== undefined && typeof detail !== 'string') {
+    errors.push('detail must be a string');
+  }
+  if (
+    [shortAnswer, detail].some((text) => typeof text === 'string' && CITATION_PATTERN.test(text))
+  ) {
+    errors.push('Put sources in citations, not in brackets in shortAnswer or detail');
+  }
+  if (
+    !Array.isArray(citations) ||
+    !citations.every((c) => c && typeof c.source === 'string' && c.source.trim() && !/[[\]\n]/.test(c.source))
+  ) {
+    errors.push('citations must list sources as { source }, without brackets');
+  } else if (citations.length === 0 && !isNoInformationAnswer(verdict, confidence)) {
+    errors.push('citations must list at least one source, unless the verdict is N/A with confidence 0 because nothing was found');
+  } else if (
+    citations.some((c) => c.excerpt !== undefined && (typeof c.excerpt !== 'string' || c.excerpt.length > MAX_EXCERPT_LENGTH))
+  ) {
+    errors.push(`citation excerpts must be strings of at most ${MAX_EXCERPT_LENGTH} characters`);
+  }
+  if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) {
+    errors.push('confidence must be a number from 0 to 1');
+  }
+  if (typeof needsReview !== 'boolean') {
+    errors.push('needsReview must be true or false');
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const answer: StructuredAnswer = {
+    verdict: verdict as AnswerVerdict,
+    shortAnswer: (shortAnswer as string).trim(),
+    citations: (citations as AnswerCitation[]).map((c) => ({
+      source: c.source.trim(),
+      ...(c.excerpt?.trim() && { excerpt: c.excerpt.trim() }),
+    })),
+    confidence: confidence as number,
+    needsReview: needsReview as boolean,
+  };
+  if (typeof lead === 'string' && lead.trim()) answer.lead = lead.trim();
+  if (typeof detail === 'string' && detail.trim()) answer.detail = detail.trim();
+  return { answer };
+}
+
+/**
+ * The answer in the response format: bold lead, short answer, citations,
+ * then any detail. Only N/A answers with citations lead with something other
+ * than their verdict, so the lead always agrees with it; answers without
+ * citations lead with N/A, as validateAnswerFormat expects.
+ */
+export function renderStructuredAnswer(answer: StructuredAnswer): string {
+  const citations = answer.citations.map((c) => ` [${c.source}]`).join('');
+  const lead =
+    answer.verdict === 'N/A' && answer.citations.length > 0 ? answer.lead || answer.verdict : answer.verdict;
+  const text = `**${lead}** - ${answer.shortAnswer}${citations}`;
+  return answer.detail ? `${text}\n\n${answer.detail}` : text;
+}
+
+/**
+ * Read a markdown answer (an approved Q&A pair's) back into a structure, for
+ * answers that weren't submitted through submit_answer
+ */
+export function parseAnswerMarkdown(
+  answer: string,
+  options: { confidence: number; needsReview: boolean }
+): StructuredAnswer {
+  const trimmed = answer.trim();
+  const leadMatch = trimmed.match(/^\*\*([^*\n]+)\*\*\s*-?\s*/);
+  const lead = leadMatch?.[1].trim();
+  const body = leadMatch ? trimmed.slice(leadMatch[0].length) : trimmed;
+  const [first, ...rest] = body.split(/\n\s*\n/);
+
+  const citations = [...new Set((body.match(/\[([^\]\n]+)\]/g) || []).map((c) => c.slice(1, -1)))];
+  const stripCitations = (text: string) => text.replace(/\s*\[[^\]\n]+\]/g, '').trim();
+
+  // A leading Yes/No is the verdict; anything else is a fact lead
+  const verdict = ANSWER_VERDICTS.find((v) => v.toLowerCase() === lead?.replace(/[.,]$/, '').toLowerCase());
+  const structured: StructuredAnswer = {
+    verdict: verdict ?? 'N/A',
+    shortAnswer: stripCitations(first),
+    citations: citations.map((source) => ({ source })),
+    ...options,
+  };
+  if (lead && !verdict) structured.lead = lead;
+  const detail = stripCitations(rest.join('\n\n'));
+  if (detail) structured.detail = detail;
+  return structured;
+}
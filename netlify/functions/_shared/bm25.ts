@@ -0,0 +1,179 @@
+/**
+ * BM25 Ranking
+ *
+ * Okapi BM25 scoring over a prebuilt inverted index. The index is built by
+ * scripts/export-notion.ts at export time and loaded by notion-index.ts, so
+ * runtime search never has to tokenize the full page content.
+ */
+
+export interface BM25Index {
+  k1: number;
+  b: number;
+  docCount: number;
+  avgDocLength: number;
+  docIds: string[];
+  docLengths: number[];
+  // term -> list of [docIndex, termFrequency]
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface BM25Document {
+  id: string;
+  text: string;
+}
+
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'that',
+  'the', 'their', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who',
+  'will', 'with', 'you', 'your', 'zenlytic',
+]);
+
+// Inflectional and derivational endings, tried in order
+const SUFFIXES: Array<[string, string]> = [
+  ['ation', ''],
+  ['ating', ''],
+  ['ated', ''],
+  ['ate', ''],
+  ['ion', ''],
+  ['ing', ''],
+  ['ed', ''],
+];
+
+/**
+ * Light suffix-stripping stemmer, so "encrypted", "encrypts" and
+ * "encryption" all become "encrypt". Tokens containing digits, dots or
+ * hyphens (control numbers, versions) are left untouched.
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || /[^a-z]/.test(token)) return token;
+
+  let word = token;
+
+  // Plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -3) + 'y';
+  else if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) word = word.slice(0, -1);
+
+  // Verb and noun endings
+  let stripped = false;
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      word = word.slice(0, -suffix.length) + replacement;
+      stripped = true;
+      break;
+    }
+  }
+
+  if (stripped) {
+    // logging -> logg -> log
+    word = word.replace(/([bcdfgkmnprt])\1$/, '$1');
+  } else if (word.endsWith('e') && word.length > 3) {
+    // configure / configured, database / databases
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+/**
+ * Split text into lowercase, stemmed search terms.
+ *
+ * Dotted and hyphenated tokens (CC1.1.3, CC-P2.1, AES-256) are kept whole so
+ * control numbers stay exact; hyphenated words also emit their parts so
+ * "role-based" still matches "role based".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[a-z0-9]+(?:[.\-][a-z0-9]+)*/g) || [];
+
+  for (const match of matches) {
+    if (!STOPWORDS.has(match)) {
+      tokens.push(stem(match));
+    }
+    if (match.includes('-') && !/^cc/.test(match)) {
+      for (const part of match.split('-')) {
+        if (part.length > 1 && !STOPWORDS.has(part)) {
+          tokens.push(stem(part));
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Build an inverted index over a set of documents
+ */
+export function buildBM25Index(
+  docs: BM25Document[],
+  options: { k1?: number; b?: number } = {}
+): BM25Index {
+  const postings: Record<string, Array<[number, number]>> = {};
+  const docLengths: number[] = [];
+
+  docs.forEach((doc, docIndex) => {
+    const terms = tokenize(doc.text);
+    docLengths.push(terms.length);
+
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, tf] of frequencies) {
+      if (!Object.prototype.hasOwnProperty.call(postings, term)) {
+        postings[term] = [];
+      }
+      postings[term].push([docIndex, tf]);
+    }
+  });
+
+  const totalLength = docLengths.reduce((sum, len) => sum + len, 0);
+
+  return {
+    k1: options.k1 ?? DEFAULT_K1,
+    b: options.b ?? DEFAULT_B,
+    docCount: docs.length,
+    avgDocLength: docs.length > 0 ? totalLength / docs.length : 0,
+    docIds: docs.map((d) => d.id),
+    docLengths,
+    postings,
+  };
+}
+
+/**
+ * Score every document containing at least one query term.
+ * Query terms may carry weights (e.g. lower weights for expanded synonyms).
+ * Returns a map of docIndex -> BM25 score.
+ */
+export function scoreBM25(
+  index: BM25Index,
+  queryTerms: string[] | Map<string, number>
+): Map<number, number> {
+  const scores = new Map<number, number>();
+  const { k1, b, docCount, avgDocLength, docLengths } = index;
+  const weights = Array.isArray(queryTerms)
+    ? new Map(queryTerms.map((t) => [t, 1]))
+    : queryTerms;
+
+  for (const [term, weight] of weights) {
+    if (!Object.prototype.hasOwnProperty.call(index.postings, term)) continue;
+    const postings = index.postings[term];
+
+    const df = postings.length;
+    const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+
+    for (const [docIndex, tf] of postings) {
+      const lengthNorm = 1 - b + b * (docLengths[docIndex] / (avgDocLength || 1));
+      const termScore = weight * idf * ((tf * (k1 + 1)) / (tf + k1 * lengthNorm));
+      scores.set(docIndex, (scores.get(docIndex) || 0) + termScore);
+    }
+  }
+
+  return scores;
+}
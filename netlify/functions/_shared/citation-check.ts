@@ -0,0 +1,276 @@
+/**
+ * Citation Check
+ *
+ * Resolves each citation in an answer against the sources that were in
+ * Claude's context (prefetched hits and tool results) and against
+ * everything that could have been cited: Notion index pages, docs pages,
+ * approved Q&A pairs and the control registry. A citation is
+ *
+ *   verified    it names a source that was in context, with the right
+ *               control number
+ *   unverified  it names a control number that doesn't exist or doesn't
+ *               belong to the cited page, or a known source that wasn't
+ *               retrieved for this answer
+ *   unknown     it names nothing that can be checked (e.g. the SOC2 report,
+ *               which is only in the system prompt)
+ *
+ * A citation can list several sources separated by ";"; each is checked
+ * and the citation gets the worst result. Each source is also resolved to
+ * where it can be read (Notion permalink, docs URL) for linking.
+ */
+
+import { extractControlIds, listControlIds, stripControlIds } from './controls.js';
+import { listLocalPages } from './notion-index.js';
+import { getDocsIndexMetadata, listDocsPages } from './docs-tools.js';
+import { getApprovedQAPairs, qaCitation } from './qa-store.js';
+import type { AnswerCitation } from './answer-format.js';
+
+export type CitationStatus = 'verified' | 'unverified' | 'unknown';
+
+export interface CitationCheck {
+  citation: string;
+  status: CitationStatus;
+  // Why the citation isn't verified
+  reason?: string;
+}
+
+export type CitedSourceType = 'notion' | 'docs' | 'qa' | 'other';
+
+// A cited source and where to read it
+export interface CitedSource {
+  // The source as cited (one of them, for citations listing several)
+  citation: string;
+  // 'other' when it doesn't resolve to an indexed page or Q&A pair
+  type: CitedSourceType;
+  title: string;
+  url?: string;
+  lastUpdated?: string;
+  // What supports the answer: Claude's quote, or the opening of the source
+  excerpt?: string;
+}
+
+// A source that can be cited, by one of the names it can be cited as: a
+// page title, docs URL or Q&A citation
+interface KnownSource {
+  name: string;
+  // Control ids in its title
+  controls: string[];
+  source: Omit<CitedSource, 'citation'>;
+}
+
+/**
+ * Lowercase words without control ids or punctuation, for comparing titles
+ */
+function normalize(text: string): string {
+  return stripControlIds(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether a cited title refers to a source name: the same words, or one
+ * contains the other and the shorter has at least two words (so "Security"
+ * alone doesn't match every security page)
+ */
+function namesMatch(cited: string, name: string): boolean {
+  const a = normalize(cited);
+  const b = normalize(name);
+  if (!a || !b) return false;
+  if (a === b) return true;
+
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  return shorter.includes(' ') && ` ${longer} `.includes(` ${shorter} `);
+}
+
+/**
+ * Names of the sources in retrieved text: headings, parents, "Cite as"
+ * lines and docs URLs, as written by the knowledge sources' formatters
+ */
+export function retrievedSourceNames(text: string): string[] {
+  const names = new Set<string>();
+  for (const [, heading] of text.matchAll(/^#{1,3} (.+)$/gm)) {
+    // Prefetch groups hits under "### From <source>:"
+    if (/^From .+:$/.test(heading)) continue;
+    // "## Title › Section" and "## Title (file.md)"
+    names.add(heading.split(' › ')[0].replace(/ \([^)]*\)$/, '').trim());
+  }
+  for (const [, parent] of text.matchAll(/\*\*Parent:\*\* (.+)/g)) {
+    names.add(parent.trim());
+  }
+  for (const [, citation] of text.matchAll(/\*Cite as: \[([^\]\n]+)\]\*/g)) {
+    // Titles can contain commas, so the whole citation is kept as well
+    names.add(citation.trim());
+    names.add(citation.split(',')[0].trim());
+  }
+  for (const [, url] of text.matchAll(/^Source: (\S+)/gm)) {
+    names.add(url);
+  }
+  for (const [, question] of text.matchAll(/\*\*Q:\*\* (.+)/g)) {
+    names.add(`Approved Q&A: ${question.trim()}`);
+  }
+  return [...names].filter(Boolean);
+}
+
+/**
+ * Everything an answer could cite. If the Q&A library can't be read its
+ * pairs are left out, so citations of them come back unknown.
+ */
+async function loadKnownSources(): Promise<KnownSource[]> {
+  const pages = listLocalPages().map((page) => ({
+    name: page.title,
+    controls: extractControlIds(page.title),
+    source: {
+      type: 'notion' as const,
+      title: page.title,
+      url: `https://www.notion.so/${page.id.replace(/-/g, '')}`,
+      lastUpdated: page.lastUpdated,
+      excerpt: page.snippet || undefined,
+    },
+  }));
+
+  const { committedAt, exportedAt } = getDocsIndexMetadata();
+  const docs = listDocsPages().flatMap((page) => {
+    const source = {
+      type: 'docs' as const,
+      title: page.title,
+      url: page.url,
+      lastUpdated: committedAt || exportedAt,
+      excerpt: page.description || undefined,
+    };
+    return [
+      { name: page.title, controls: [], source },
+      { name: page.url, controls: [], source },
+    ];
+  });
+
+  let pairs: KnownSource[] = [];
+  try {
+    pairs = (await getApprovedQAPairs()).map((pair) => ({
+      name: qaCitation(pair),
+      controls: [],
+      source: { type: 'qa' as const, title: pair.q, lastUpdated: pair.updatedAt, excerpt: pair.a },
+    }));
+  } catch (error) {
+    console.error('Error loading Q&A pairs for citation check:', error);
+  }
+
+  return [...pages, ...docs, ...pairs];
+}
+
+/**
+ * The part of a cited source that is its title. Sources are cited as
+ * "Title, Parent" or "Title, URL", but titles can contain commas too, so
+ * the longest comma-separated prefix that is exactly a known source's name
+ * wins; otherwise everything before the first comma.
+ */
+function citedTitle(source: string, known: KnownSource[]): { title: string; rest: string[] } {
+  const parts = source.split(',').map((part) => part.trim());
+  const names = new Set(known.map((s) => normalize(s.name)).filter(Boolean));
+  for (let end = parts.length; end > 1; end--) {
+    const title = parts.slice(0, end).join(', ');
+    if (names.has(normalize(title))) return { title, rest: parts.slice(end) };
+  }
+  return { title: parts[0], rest: parts.slice(1) };
+}
+
+/**
+ * Check one source within a citation
+ */
+function checkSource(
+  source: string,
+  retrieved: string[],
+  known: KnownSource[],
+  knownControls: Set<string>
+): Omit<CitationCheck, 'citation'> {
+  // "Title, Parent" and "Title, URL": the title is what is being cited
+  const { title } = citedTitle(source, known);
+  const ids = extractControlIds(title);
+  const named = normalize(title) ? known.filter((s) => namesMatch(title, s.name)) : [];
+
+  // Control numbers must exist and belong to the page the citation names.
+  // Without an index there is nothing to check them against.
+  if (knownControls.size > 0) {
+    const namedControls = [...new Set(named.flatMap((s) => s.controls))];
+    for (const id of ids) {
+      if (namedControls.length > 0 && !namedControls.includes(id)) {
+        const page = named.find((s) => s.controls.length > 0)!;
+        return {
+          status: 'unverified',
+          reason: `"${stripControlIds(page.name).trim()}" is ${namedControls.join(' / ')}, not ${id}`,
+        };
+      }
+      if (!knownControls.has(id)) {
+        return { status: 'unverified', reason: `${id} is not a known control` };
+      }
+    }
+  }
+
+  const inContext = normalize(title)
+    ? retrieved.some((name) => namesMatch(title, name))
+    : ids.length > 0 && retrieved.some((name) => ids.some((id) => extractControlIds(name).includes(id)));
+  if (inContext) return { status: 'verified' };
+
+  if (named.length > 0 || ids.length > 0) {
+    return { status: 'unverified', reason: 'Not among the sources retrieved for this answer' };
+  }
+  return { status: 'unknown' };
+}
+
+/**
+ * The known source one cited source refers to: by docs URL, then by title,
+ * preferring pages with the cited control number and exact titles
+ */
+function resolveSource(source: string, known: KnownSource[], excerpt?: string): CitedSource {
+  const { title, rest } = citedTitle(source, known);
+  const ids = extractControlIds(title);
+
+  const byUrl = known.find((s) => s.source.type === 'docs' && rest.includes(s.name));
+  const candidates = known
+    .filter((s) => namesMatch(title, s.name))
+    .sort(
+      (a, b) =>
+        Number(ids.some((id) => b.controls.includes(id))) - Number(ids.some((id) => a.controls.includes(id))) ||
+        Number(normalize(b.name) === normalize(title)) - Number(normalize(a.name) === normalize(title))
+    );
+  const match = byUrl || candidates[0];
+
+  if (!match) return { citation: source, type: 'other', title: source, ...(excerpt && { excerpt }) };
+  return { citation: source, ...match.source, ...(excerpt && { excerpt }) };
+}
+
+const STATUS_ORDER: CitationStatus[] = ['verified', 'unknown', 'unverified'];
+
+/**
+ * Check each citation against the names of the sources that were in context
+ * (see retrievedSourceNames), and resolve each source it lists
+ */
+export async function checkCitations(
+  citations: AnswerCitation[],
+  retrieved: string[]
+): Promise<{ checks: CitationCheck[]; sources: CitedSource[] }> {
+  if (citations.length === 0) return { checks: [], sources: [] };
+
+  const known = await loadKnownSources();
+  const knownControls = new Set([...listControlIds(), ...known.flatMap((s) => s.controls)]);
+
+  const checks: CitationCheck[] = [];
+  const sources: CitedSource[] = [];
+  for (const { source: citation, excerpt } of citations) {
+    const parts = citation
+      .split(';')
+      .map((part) => part.trim())
+      .filter(Boolean);
+
+    const worst = parts
+      .map((part) => checkSource(part, retrieved, known, knownControls))
+      .reduce(
+        (a, b) => (STATUS_ORDER.indexOf(b.status) > STATUS_ORDER.indexOf(a.status) ? b : a),
+        { status: 'verified' } as Omit<CitationCheck, 'citation'>
+      );
+    checks.push({ citation, ...worst });
+    sources.push(...parts.map((part) => resolveSource(part, known, excerpt)));
+  }
+
+  return { checks, sources };
+}
@@ -1,238 +1,266 @@
 /**
  * Claude Service
  * 
- * Handles Claude API calls with tool use for Notion search and Q&A lookup.
+ * Handles Claude API calls. Context and tools come from the knowledge
+ * sources registered in knowledge-sources.ts; Claude can search and open
+ * pages over several rounds of tool calls, within an iteration, token and
+ * time budget, then submits its answer through the submit_answer tool
+ * (answer-format.ts). Questions that repeat an approved Q&A pair are
+ * answered from the library without calling Claude.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { SYSTEM_PROMPT, NOTION_PAGES } from './system-prompt.js';
-import { searchNotion, getNotionPage } from './notion-tools.js';
-import { searchQAPairs } from './qa-store.js';
-import { searchDocs, getDocsPage } from './docs-tools.js';
-import { searchLocalIndex, hasLocalIndex } from './notion-index.js';
+import { SYSTEM_PROMPT } from './system-prompt.js';
+import { getKnowledgeTools, runKnowledgeTool, prefetchKnowledge } from './knowledge-sources.js';
+import { findOverdueCitedPairs, findVerbatimQAPair, isQAPairOverdue, type QASimilarPair } from './qa-store.js';
+import {
+  SUBMIT_ANSWER_TOOL,
+  parseAnswerMarkdown,
+  renderStructuredAnswer,
+  submitAnswerTool,
+  validateAnswerFormat,
+  validateStructuredAnswer,
+  type StructuredAnswer,
+} from './answer-format.js';
+import {
+  checkCitations,
+  retrievedSourceNames,
+  type CitationCheck,
+  type CitedSource,
+} from './citation-check.js';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
-// Tool definitions
-const TOOLS: Anthropic.Tool[] = [
-  {
-    name: 'search_notion',
-    description: `Search Zenlytic's Notion workspace for policies, procedures, and documentation.
-
-IMPORTANT: Always search Notion BEFORE answering questions about:
-- Security policies (CC* controls)
-- Training requirements  
-- HR procedures
-- Compliance/audit evidence
-- Architecture/technical details
-
-Use page_filter to target specific sections:
-- employee_handbook: ALL CC* policies, training, HR
-- security_homepage: SOC2 reports, audit evidence
-- engineering_wiki: Architecture, Zoë, technical docs`,
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query - be specific, e.g. "CC1.1.3 training" or "incident response"',
-        },
-        page_filter: {
-          type: 'string',
-          enum: ['employee_handbook', 'security_homepage', 'engineering_wiki', 'all'],
-          description: 'Which Notion section to search',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'get_notion_page',
-    description: 'Get full content of a specific Notion page by ID or CC control number (e.g., "CC1.1.3", "CC2.3.3")',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        page_id: {
-          type: 'string',
-          description: 'Notion page ID or CC control number',
-        },
-      },
-      required: ['page_id'],
-    },
-  },
-  {
-    name: 'search_qa_pairs',
-    description: 'Search previously approved Q&A responses for similar questions. Use this for common questions about SOC2, encryption, training, etc.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Question to search for',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'search_docs',
-    description: `Search Zenlytic's public documentation (docs.zenlytic.com).
-
-Use this for questions about:
-- Data sources and connections (Snowflake, BigQuery, Databricks, etc.)
-- Authentication (SSO, SAML, Okta, Microsoft Entra)
-- Security practices and IP whitelisting
-- Legal documents (Terms of Service, DPA, Subprocessors)
-- Customer support policies
-
-Sections available:
-- data-sources: Database connection setup guides
-- authentication-and-security: SSO, security features
-- legal-and-support: Legal docs, subprocessors, support policy`,
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query - e.g. "subprocessors", "snowflake setup", "okta SSO"',
-        },
-        section: {
-          type: 'string',
-          enum: ['data-sources', 'authentication-and-security', 'legal-and-support'],
-          description: 'Optional: limit search to a specific section',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'get_docs_page',
-    description: 'Get full content of a specific documentation page from docs.zenlytic.com',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        page_path: {
-          type: 'string',
-          description: 'Path to the page, e.g. "legal-and-support/legal/subprocessors" or "data-sources/snowflake_setup"',
-        },
-      },
-      required: ['page_path'],
-    },
-  },
-];
-
-/**
- * Process a tool call
- */
-async function processToolCall(
-  toolName: string,
-  toolInput: Record<string, unknown>
-): Promise<string> {
-  console.log(`Tool call: ${toolName}`, toolInput);
-  
-  switch (toolName) {
-    case 'search_notion': {
-      const { query, page_filter } = toolInput as { query: string; page_filter?: string };
-      return await searchNotion(query, page_filter);
-    }
-    case 'get_notion_page': {
-      const { page_id } = toolInput as { page_id: string };
-      return await getNotionPage(page_id);
-    }
-    case 'search_qa_pairs': {
-      const { query } = toolInput as { query: string };
-      return searchQAPairs(query);
-    }
-    case 'search_docs': {
-      const { query, section } = toolInput as { query: string; section?: string };
-      return searchDocs(query, section);
-    }
-    case 'get_docs_page': {
-      const { page_path } = toolInput as { page_path: string };
-      return getDocsPage(page_path);
-    }
-    default:
-      return `Unknown tool: ${toolName}`;
-  }
-}
+// Where an answer came from: an approved Q&A pair, or generated by Claude
+export type AnswerProvenance = 'approved_library' | 'generated';
 
 export interface AskResult {
+  // Markdown rendered from `structured`
   answer: string;
   citations: string[];
   searches: string[];
+  // Cited Q&A pairs that are past their review-by date
+  overdueQAPairs: Array<{ id: string; q: string; reviewBy: string }>;
+  provenance: AnswerProvenance;
+  // For library answers: the pair, how closely the question matched it (0-1),
+  // and whether its wording was adapted to the question
+  qaMatch?: { id: string; q: string; similarity: number; adapted: boolean };
+  structured: StructuredAnswer;
+  // Each citation checked against the sources that were in context
+  citationChecks: CitationCheck[];
+  // Each cited source with its link, date and supporting excerpt
+  citedSources: CitedSource[];
+}
+
+// Progress while a question is answered, for streaming to the Ask page
+export type AskEvent =
+  // A retrieval step, as recorded in searches
+  | { type: 'search'; step: string }
+  // What prefetch found: the sources with hits and how those hits are cited
+  | { type: 'found'; sources: string[]; citations: string[] }
+  // Answer text as it is generated
+  | { type: 'text'; text: string }
+  // The answer text so far is being replaced (e.g. a submission was rejected)
+  | { type: 'reset' };
+
+// Defaults for the tool-use loop in askQuestion. The deadline leaves room
+// for the final answer within the ask function's 60s timeout.
+const DEFAULT_MAX_ITERATIONS = 5;
+const DEFAULT_TOKEN_BUDGET = 60000;
+const DEFAULT_DEADLINE_SECONDS = 40;
+
+interface ToolLoopBudget {
+  // Rounds of tool calls before Claude must answer
+  maxIterations: number;
+  // Input plus output tokens across the calls for one question
+  tokenBudget: number;
+  deadlineMs: number;
 }
 
 /**
- * Pre-fetch relevant context based on question keywords
- * This runs searches in parallel before calling Claude, reducing round-trips
- *
- * Priority: Local Index (instant) -> Q&A Pairs -> Docs -> Live Notion API (fallback)
+ * A positive number from an environment variable, or the default
  */
-async function prefetchContext(question: string): Promise<string> {
-  const results: Array<{ source: string; result: string }> = [];
-
-  // Determine which sources to search based on keywords
-  const needsNotion =
-    /security|soc2|soc 2|compliance|policy|training|employee|hr|incident|access|encryption|audit|control|cc\d|gdpr|privacy|data|protect|breach|hipaa|pci|iso|rpo|rto|recovery|disaster|continuity|backup|restore|failover|redundan/i.test(question);
-  const needsDocs =
-    /docs|documentation|subprocessor|data source|snowflake|bigquery|databricks|sso|saml|okta|authentication|integration|api|setup|connect|gdpr|privacy|legal|terms|dpa/i.test(question);
-  const needsQA = true; // Always check Q&A pairs for exact matches
-
-  // 1. FIRST: Try local index (instant, no API call)
-  if (needsNotion) {
-    try {
-      if (hasLocalIndex()) {
-        results.push({
-          source: 'Notion (local index)',
-          result: searchLocalIndex(question, 8),
-        });
-      }
-    } catch (err) {
-      console.error('Error loading local index:', err);
-    }
-  }
+function getPositiveEnvNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
 
-  // 2. Always check Q&A pairs (instant, no API call)
-  if (needsQA) {
-    results.push({
-      source: 'Q&A',
-      result: searchQAPairs(question),
-    });
-  }
+/**
+ * Tool-loop limits, from ASK_MAX_ITERATIONS, ASK_TOKEN_BUDGET and
+ * ASK_DEADLINE_SECONDS
+ */
+function getToolLoopBudget(): ToolLoopBudget {
+  return {
+    maxIterations: getPositiveEnvNumber('ASK_MAX_ITERATIONS', DEFAULT_MAX_ITERATIONS),
+    tokenBudget: getPositiveEnvNumber('ASK_TOKEN_BUDGET', DEFAULT_TOKEN_BUDGET),
+    deadlineMs: getPositiveEnvNumber('ASK_DEADLINE_SECONDS', DEFAULT_DEADLINE_SECONDS) * 1000,
+  };
+}
 
-  // 3. Search docs if needed (synchronous - reads local files)
-  if (needsDocs) {
-    results.push({
-      source: 'Docs',
-      result: searchDocs(question.slice(0, 100)),
-    });
+/**
+ * Why the loop has to stop before running another round of tool calls, or
+ * null if it can go on
+ */
+function checkToolLoopBudget(
+  budget: ToolLoopBudget,
+  step: number,
+  tokensUsed: number,
+  deadline: number
+): string | null {
+  if (step > budget.maxIterations) return `reached ${budget.maxIterations} tool rounds`;
+  if (tokensUsed >= budget.tokenBudget) return `used ${tokensUsed} of ${budget.tokenBudget} tokens`;
+  if (Date.now() >= deadline) return `passed the ${budget.deadlineMs / 1000}s deadline`;
+  return null;
+}
+
+const LEAD_PATTERN = /^\*\*([^*\n]+)\*\*/;
+
+/**
+ * Bracketed citations in an answer, without duplicates
+ */
+function extractCitations(answer: string): string[] {
+  const citationMatches = answer.match(/\[([^\]]+)\]/g) || [];
+  return [...new Set(citationMatches.map((c) => c.slice(1, -1)))];
+}
+
+/**
+ * Cited Q&A pairs whose review-by date has passed, so the answer can be
+ * flagged for checking
+ */
+async function findOverdueQAPairs(citations: string[]): Promise<AskResult['overdueQAPairs']> {
+  try {
+    const pairs = await findOverdueCitedPairs(citations);
+    return pairs.map((pair) => ({ id: pair.id, q: pair.q, reviewBy: pair.reviewBy! }));
+  } catch (error) {
+    console.error('Error checking Q&A review dates:', error);
+    return [];
   }
+}
 
-  // 4. FALLBACK: Only use live Notion API if local index unavailable or failed
-  const hasLocalResults = results.some(r => r.source.includes('local index'));
-  if (needsNotion && !hasLocalResults) {
-    try {
-      console.log('Local index not available, falling back to Notion API');
-      const notionResult = await searchNotion(question.slice(0, 100), 'all');
-      results.push({
-        source: 'Notion (API)',
-        result: notionResult,
-      });
-    } catch (err) {
-      console.error('Notion API fallback failed:', err);
+/**
+ * Check an answer's citations against the sources it was written from and
+ * resolve them to links. If that fails the answer is returned without them.
+ */
+async function checkAnswerCitations(
+  citations: StructuredAnswer['citations'],
+  retrieved: string[]
+): Promise<Pick<AskResult, 'citationChecks' | 'citedSources'>> {
+  try {
+    const { checks, sources } = await checkCitations(citations, retrieved);
+    const unverified = checks.filter((check) => check.status === 'unverified');
+    if (unverified.length > 0) {
+      console.log('Unverified citations:', unverified.map((c) => `${c.citation} (${c.reason})`).join('; '));
     }
+    return { citationChecks: checks, citedSources: sources };
+  } catch (error) {
+    console.error('Error checking citations:', error);
+    return { citationChecks: [], citedSources: [] };
   }
+}
 
-  let context = '';
-  for (const { source, result } of results) {
-    if (result && !result.includes('No results') && !result.includes('No matching') && !result.includes('not available')) {
-      context += `\n\n### From ${source}:\n${result.slice(0, 4000)}`;
+/**
+ * The approved pair a question repeats, if any. If the library can't be
+ * read, the answer is generated instead.
+ */
+async function findApprovedAnswer(question: string): Promise<QASimilarPair | null> {
+  try {
+    return await findVerbatimQAPair(question);
+  } catch (error) {
+    console.error('Error matching approved Q&A pairs:', error);
+    return null;
+  }
+}
+
+/**
+ * Reword an approved answer to follow the customer's phrasing without
+ * changing what it says. Returns null, so the approved wording is used, if
+ * the rewrite changes the bold lead or citations or breaks the format.
+ */
+async function adaptApprovedAnswer(
+  model: string,
+  question: string,
+  answer: string,
+  context?: string
+): Promise<string | null> {
+  try {
+    const response = await anthropic.messages.create({
+      model,
+      max_tokens: 1024,
+      system:
+        'You lightly adapt pre-approved security questionnaire answers to how a customer phrased their question. ' +
+        'Keep the bold lead, every fact and every bracketed citation exactly as they are. Do not add or remove ' +
+        'information; only adjust wording so the answer reads as a reply to this question. Reply with the answer only.',
+      messages: [
+        {
+          role: 'user',
+          content: `${context ? `Context: ${context}\n\n` : ''}Question: ${question}\n\nApproved answer:\n${answer}`,
+        },
+      ],
+    });
+
+    const adapted = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map((block) => block.text)
+      .join('\n')
+      .trim();
+
+    const sameLead = adapted.match(LEAD_PATTERN)?.[1] === answer.match(LEAD_PATTERN)?.[1];
+    const sameCitations = extractCitations(adapted).sort().join('\n') === extractCitations(answer).sort().join('\n');
+    if (!sameLead || !sameCitations || validateAnswerFormat(adapted).length > 0) {
+      console.log('Adapted answer changed its lead, citations or format; using the approved wording');
+      return null;
     }
+    return adapted;
+  } catch (error) {
+    console.error('Error adapting approved answer:', error);
+    return null;
   }
+}
 
-  return context;
+/**
+ * Answer from an approved pair: its answer as-is, or lightly adapted when
+ * asked for
+ */
+async function answerFromLibrary(
+  model: string,
+  question: string,
+  match: QASimilarPair,
+  context?: string,
+  adapt?: boolean,
+  onEvent?: (event: AskEvent) => void
+): Promise<AskResult> {
+  const { pair, similarity } = match;
+  console.log(`Answering from approved Q&A pair ${pair.id} (${Math.round(similarity * 100)}% match)`);
+
+  const step = `approved library: "${match.question}" (${Math.round(similarity * 100)}% match)`;
+  onEvent?.({ type: 'search', step });
+
+  const adapted = adapt ? await adaptApprovedAnswer(model, question, pair.a, context) : null;
+  const answer = adapted ?? pair.a;
+  onEvent?.({ type: 'text', text: answer });
+
+  const overdue = isQAPairOverdue(pair);
+  const citations = extractCitations(answer);
+  // The pair's own sources stand in for retrieval; control numbers are
+  // still checked, since approved answers can cite the wrong one too
+  const checked = await checkAnswerCitations(
+    citations.map((source) => ({ source })),
+    citations.flatMap((citation) => citation.split(';').map((source) => source.split(',')[0].trim()))
+  );
+  const unverified = checked.citationChecks.some((check) => check.status === 'unverified');
+
+  return {
+    answer,
+    citations,
+    searches: [step],
+    overdueQAPairs: overdue ? [{ id: pair.id, q: pair.q, reviewBy: pair.reviewBy! }] : [],
+    provenance: 'approved_library',
+    qaMatch: { id: pair.id, q: pair.q, similarity, adapted: adapted !== null },
+    structured: parseAnswerMarkdown(answer, { confidence: 1, needsReview: overdue || unverified }),
+    ...checked,
+  };
 }
 
 /**
@@ -241,14 +269,34 @@ async function prefetchContext(question: string): Promise<string> {
 export async function askQuestion(
   question: string,
   context?: string,
-  options?: { fast?: boolean }
+  // adaptApproved: reword approved answers to the question (see adaptApprovedAnswer);
+  // onEvent: called with retrieval steps and answer text as they happen
+  options?: { fast?: boolean; adaptApproved?: boolean; onEvent?: (event: AskEvent) => void }
 ): Promise<AskResult> {
   const searches: string[] = [];
+  const onEvent = options?.onEvent;
+
+  const recordSearch = (step: string) => {
+    searches.push(step);
+    onEvent?.({ type: 'search', step });
+  };
+
+  // Always use Sonnet for quality responses
+  const MODEL = process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514';
 
-  // Pre-fetch relevant context in parallel (big speed improvement)
+  // A repeat of an approved question gets the approved answer
+  const match = await findApprovedAnswer(question);
+  if (match) {
+    return answerFromLibrary(MODEL, question, match, context, options?.adaptApproved, onEvent);
+  }
+
+  // Pre-fetch relevant context from every knowledge source in parallel
   console.log('Pre-fetching context...');
-  const prefetchedContext = await prefetchContext(question);
-  searches.push('prefetch: Notion, Docs, Q&A (parallel)');
+  const { context: prefetchedContext, sources, citations: found } = await prefetchKnowledge(question);
+  recordSearch(`prefetch: ${sources.join(', ') || 'no results'} (parallel)`);
+  onEvent?.({ type: 'found', sources, citations: found });
+  // Names of every source Claude has seen, for checking its citations
+  const retrieved = retrievedSourceNames(prefetchedContext);
 
   let userMessage = question;
   if (context) {
@@ -260,99 +308,180 @@ export async function askQuestion(
     userMessage += `\n\n---\nRelevant information from knowledge base:${prefetchedContext}`;
   }
 
-  // Always use Sonnet for quality responses
-  const MODEL = process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514';
+  // With prefetched context most questions are answered in one call; tools
+  // are there for following up on what it doesn't cover
+  const system = prefetchedContext
+    ? SYSTEM_PROMPT +
+      '\n\nIMPORTANT: Relevant information has already been retrieved for you below the question. Answer from it ' +
+      'when it covers the question; only use tools when it does not, e.g. to open a page it mentions.'
+    : SYSTEM_PROMPT;
+  const tools = [...getKnowledgeTools(), submitAnswerTool];
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: userMessage }];
 
-  // If we have prefetched context, make a single call WITHOUT tools
-  // This dramatically improves performance by avoiding tool use loops
-  if (prefetchedContext) {
-    console.log('Have prefetched context, calling without tools for speed');
+  const budget = getToolLoopBudget();
+  const deadline = Date.now() + budget.deadlineMs;
+  let tokensUsed = 0;
+
+  // Markdown of the submit_answer input streamed so far
+  let streamed = '';
+  const streamDraft = (input: Partial<StructuredAnswer>) => {
+    if (!onEvent || !input.verdict || typeof input.shortAnswer !== 'string') return;
+    const draft = `**${input.lead || input.verdict}** - ${input.shortAnswer}${input.detail ? `\n\n${input.detail}` : ''}`;
+    if (draft.startsWith(streamed)) {
+      if (draft.length > streamed.length) onEvent({ type: 'text', text: draft.slice(streamed.length) });
+    } else {
+      onEvent({ type: 'reset' });
+      onEvent({ type: 'text', text: draft });
+    }
+    streamed = draft;
+  };
 
-    const response = await anthropic.messages.create({
+  // forceAnswer: Claude must call submit_answer rather than search again.
+  // Streams the answer as it is submitted when there is someone to send it to.
+  const callClaude = async (forceAnswer = false): Promise<Anthropic.Message> => {
+    const params = {
       model: MODEL,
       max_tokens: 4096,
-      system: SYSTEM_PROMPT + '\n\nIMPORTANT: Answer based on the provided context. Do not indicate you need to search - the relevant information has already been retrieved for you.',
-      messages: [{ role: 'user', content: userMessage }],
-      // NO tools - force direct answer
-    });
-
-    console.log('Response stop_reason:', response.stop_reason);
-
-    const textBlocks = response.content.filter(
-      (block): block is Anthropic.TextBlock => block.type === 'text'
-    );
-    const answer = textBlocks.map((block) => block.text).join('\n');
-
-    const citationMatches = answer.match(/\[([^\]]+)\]/g) || [];
-    const citations = [...new Set(citationMatches.map((c) => c.slice(1, -1)))];
-
-    return { answer, citations, searches };
-  }
-
-  // Fallback: No prefetched context, use tools (slower path)
-  console.log('No prefetched context, using tools');
-
-  let response = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: 4096,
-    system: SYSTEM_PROMPT,
-    tools: TOOLS,
-    messages: [{ role: 'user', content: userMessage }],
-  });
-
-  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: userMessage }];
-
-  // Handle tool use (limited to 1 iteration)
-  if (response.stop_reason === 'tool_use') {
+      system,
+      tools,
+      messages,
+      ...(forceAnswer && { tool_choice: { type: 'tool' as const, name: SUBMIT_ANSWER_TOOL } }),
+    };
+    let message: Anthropic.Message;
+    if (onEvent) {
+      const stream = anthropic.messages.stream(params);
+      stream.on('streamEvent', (event, snapshot) => {
+        if (event.type !== 'content_block_delta' || event.delta.type !== 'input_json_delta') return;
+        const block = snapshot.content[event.index];
+        if (block?.type === 'tool_use' && block.name === SUBMIT_ANSWER_TOOL) {
+          streamDraft(block.input as Partial<StructuredAnswer>);
+        }
+      });
+      message = await stream.finalMessage();
+    } else {
+      message = await anthropic.messages.create(params);
+    }
+    tokensUsed += message.usage.input_tokens + message.usage.output_tokens;
+    return message;
+  };
+
+  let response = await callClaude();
+  let structured: StructuredAnswer | null = null;
+  // Set for the last call, which has to submit an answer
+  let forced = false;
+
+  // Tool-use loop: search, open pages, search again, until Claude submits a
+  // valid answer or the budget runs out
+  for (let step = 1; ; step++) {
     const toolUseBlocks = response.content.filter(
       (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
     );
+    if (response.content.length > 0) {
+      messages.push({ role: 'assistant', content: response.content });
+    }
+
+    const submission = toolUseBlocks.find((toolUse) => toolUse.name === SUBMIT_ANSWER_TOOL);
+    const validated = submission ? validateStructuredAnswer(submission.input) : null;
+    if (validated && 'answer' in validated) {
+      structured = validated.answer;
+      break;
+    }
+    if (forced) break;
+    if (validated) {
+      recordSearch(`step ${step} · ${SUBMIT_ANSWER_TOOL} rejected: ${validated.errors.join('; ')}`);
+      streamed = '';
+      onEvent?.({ type: 'reset' });
+    }
+
+    const exhausted = checkToolLoopBudget(budget, step, tokensUsed, deadline);
+    if (exhausted) {
+      console.log(`Tool loop stopped: ${exhausted}`);
+      recordSearch(`step ${step} · stopped: ${exhausted}`);
+    }
 
-    const toolResults = await Promise.all(
+    // Every tool_use needs a result, including calls that aren't run
+    const toolResults: Anthropic.ToolResultBlockParam[] = await Promise.all(
       toolUseBlocks.map(async (toolUse) => {
-        searches.push(`${toolUse.name}: ${JSON.stringify(toolUse.input)}`);
-        const result = await processToolCall(
+        if (validated && 'errors' in validated && toolUse === submission) {
+          return {
+            type: 'tool_result' as const,
+            tool_use_id: toolUse.id,
+            content: `Answer rejected: ${validated.errors.join('; ')}. Fix these and call ${SUBMIT_ANSWER_TOOL} again.`,
+            is_error: true,
+          };
+        }
+        if (exhausted) {
+          return {
+            type: 'tool_result' as const,
+            tool_use_id: toolUse.id,
+            content: 'Not run: the search budget for this question is used up.',
+          };
+        }
+        recordSearch(`step ${step} · ${toolUse.name}: ${JSON.stringify(toolUse.input)}`);
+        const result = await runKnowledgeTool(
           toolUse.name,
           toolUse.input as Record<string, unknown>
         );
+        const content = result.slice(0, 8000);
+        retrieved.push(...retrievedSourceNames(content));
         return {
           type: 'tool_result' as const,
           tool_use_id: toolUse.id,
-          content: result.slice(0, 8000),
+          content,
         };
       })
     );
 
-    messages.push({ role: 'assistant', content: response.content });
-    messages.push({ role: 'user', content: toolResults });
-
-    // Final call without tools to force answer
-    response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT + '\n\nProvide your final answer now.',
-      messages,
+    // Out of budget, or Claude replied in text: have it submit what it has
+    forced = exhausted !== null || toolUseBlocks.length === 0;
+    messages.push({
+      role: 'user',
+      content: forced
+        ? [
+            ...toolResults,
+            {
+              type: 'text' as const,
+              text: `Submit your final answer now with ${SUBMIT_ANSWER_TOOL}, from the information gathered so far.`,
+            },
+          ]
+        : toolResults,
     });
+
+    response = await callClaude(forced);
   }
 
   console.log('Final response stop_reason:', response.stop_reason);
   console.log('Final response content types:', response.content.map(b => b.type));
-
-  // Extract final text - handle both text blocks and any remaining tool_use gracefully
-  const textBlocks = response.content.filter(
-    (block): block is Anthropic.TextBlock => block.type === 'text'
-  );
-  let answer = textBlocks.map((block) => block.text).join('\n');
-
-  // If still no answer, provide a fallback
-  if (!answer.trim()) {
-    console.log('No text in response, providing fallback');
-    answer = "I wasn't able to generate a complete response. Please try rephrasing your question or contact security@zenlytic.com for assistance.";
+  console.log(`Tool loop used ${tokensUsed} tokens`);
+
+  // If still no valid answer, provide a fallback
+  if (!structured) {
+    console.log('No valid answer submitted, providing fallback');
+    structured = {
+      verdict: 'N/A',
+      shortAnswer:
+        "I wasn't able to generate a complete response. Please try rephrasing your question or contact security@zenlytic.com for assistance.",
+      citations: [],
+      confidence: 0,
+      needsReview: true,
+    };
   }
 
-  // Extract citations from answer
-  const citationMatches = answer.match(/\[([^\]]+)\]/g) || [];
-  const citations = [...new Set(citationMatches.map((c) => c.slice(1, -1)))];
+  const answer = renderStructuredAnswer(structured);
+  const citations = structured.citations.map((citation) => citation.source);
+  const overdueQAPairs = await findOverdueQAPairs(citations);
+  const checked = await checkAnswerCitations(structured.citations, retrieved);
+  if (overdueQAPairs.length > 0 || checked.citationChecks.some((check) => check.status === 'unverified')) {
+    structured.needsReview = true;
+  }
 
-  return { answer, citations, searches };
+  return {
+    answer,
+    citations,
+    searches,
+    overdueQAPairs,
+    provenance: 'generated',
+    structured,
+    ...checked,
+  };
 }
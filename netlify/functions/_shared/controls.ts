@@ -0,0 +1,108 @@
+/**
+ * Control Registry
+ *
+ * Maps control identifiers (CC1.1.3, CC-P2.1, CC.AI.1, ...) and page aliases
+ * (employee_handbook, ...) to Notion page ids. The registry is generated by
+ * scripts/export-notion.ts from the exported page titles, so controls added
+ * in Notion become addressable after the next sync with no code change.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+export interface ControlPage {
+  id: string;
+  title: string;
+}
+
+export interface ControlRegistry {
+  generatedAt: string;
+  // Control id -> pages titled with it (several policies can share one)
+  controls: Record<string, ControlPage[]>;
+  // Alias (root page key or snake_case title) -> page id
+  aliases: Record<string, string>;
+}
+
+// CC1.1.3, CC10.1, CC-P2.1, CC.AI.1
+const CONTROL_ID_PATTERN = /\bCC(?:-[A-Z]+|\.[A-Z]+\.)?\d+(?:\.\d+)*/gi;
+
+let registry: ControlRegistry | null = null;
+let registryLoaded = false;
+
+/**
+ * Find every control identifier in a piece of text, normalized to uppercase
+ */
+export function extractControlIds(text: string): string[] {
+  const matches = text.match(CONTROL_ID_PATTERN) || [];
+  return [...new Set(matches.map((m) => m.toUpperCase()))];
+}
+
+/**
+ * Text with its control identifiers removed
+ */
+export function stripControlIds(text: string): string {
+  return text.replace(CONTROL_ID_PATTERN, ' ');
+}
+
+/**
+ * Every control id in the registry
+ */
+export function listControlIds(): string[] {
+  return Object.keys(loadControlRegistry()?.controls || {});
+}
+
+/**
+ * Alias for a page title: "Business Continuity Plan" -> "business_continuity_plan"
+ */
+export function toAlias(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Load the control registry (lazy loaded, cached in memory)
+ */
+function loadControlRegistry(): ControlRegistry | null {
+  if (registryLoaded) return registry;
+  registryLoaded = true;
+
+  const possiblePaths = [
+    // Netlify runtime
+    '/var/task/config/notion-index/controls.json',
+    // Local dev
+    join(process.cwd(), 'config', 'notion-index', 'controls.json'),
+  ];
+
+  for (const registryPath of possiblePaths) {
+    try {
+      if (existsSync(registryPath)) {
+        registry = JSON.parse(readFileSync(registryPath, 'utf-8')) as ControlRegistry;
+        console.log(`Loaded control registry from ${registryPath} (${Object.keys(registry.controls).length} controls)`);
+        return registry;
+      }
+    } catch (err) {
+      console.log(`Failed to load control registry from ${registryPath}:`, err);
+    }
+  }
+
+  console.warn('Control registry not found, run `npm run export-notion` to build it');
+  return null;
+}
+
+/**
+ * Resolve a control number or page alias to Notion page ids.
+ * Returns an empty list when the reference is neither.
+ */
+export function resolvePageIds(ref: string): string[] {
+  const controls = loadControlRegistry();
+  if (!controls) return [];
+
+  const trimmed = ref.trim();
+  const pages = controls.controls[trimmed.toUpperCase()];
+  if (pages) return pages.map((p) => p.id);
+
+  const aliased = controls.aliases[toAlias(trimmed)];
+  return aliased ? [aliased] : [];
+}
@@ -2,197 +2,352 @@
  * Docs Tools
  *
  * Provides search and fetch capabilities for Zenlytic's public documentation.
- * Docs are stored in the /docs submodule (synced from zenlytic-docs repo).
+ * Docs are synced from the zenlytic-docs repo into the /docs submodule and
+ * indexed into config/docs-index/ by scripts/export-docs.ts, so nothing here
+ * reads the submodule at runtime.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-
-// Docs sections to search
-const DOCS_SECTIONS = [
-  'authentication-and-security',
-  'data-sources',
-  'legal-and-support',
-];
-
-// Map section names to docs.zenlytic.com URLs
-const SECTION_URLS: Record<string, string> = {
-  'authentication-and-security': 'https://docs.zenlytic.com/authentication-and-security',
-  'data-sources': 'https://docs.zenlytic.com/data-sources',
-  'legal-and-support': 'https://docs.zenlytic.com/legal-and-support',
-};
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { scoreBM25, type BM25Index } from './bm25.js';
+import { expandQuery } from './thesaurus.js';
+import { rankHybrid } from './hybrid-search.js';
+import type { KnowledgeSource } from './knowledge-sources.js';
+
+export interface DocsPage {
+  // Path relative to the docs root, without .md (e.g. "legal-and-support/sla")
+  path: string;
+  section: string;
+  title: string;
+  description: string;
+  // Canonical docs.zenlytic.com URL
+  url: string;
+  headings: string[];
+  // Markdown body without frontmatter
+  content: string;
+}
+
+export interface DocsIndex {
+  exportedAt: string;
+  // Docs submodule commit the index was built from
+  commit?: string;
+  committedAt?: string;
+  pages: DocsPage[];
+}
+
+let docsIndex: DocsIndex | null = null;
+let docsBM25Index: BM25Index | null = null;
+let docsIndexLoaded = false;
 
 /**
- * Get the docs directory path
+ * Runtime locations of a file in config/docs-index/
  */
-function getDocsPath(): string {
-  // In Netlify functions, the docs folder is at the repo root
-  // During build, we're in /var/task or similar
-  const possiblePaths = [
-    path.join(process.cwd(), 'docs'),
-    path.join(__dirname, '..', '..', '..', 'docs'),
-    '/var/task/docs',
+function docsIndexPaths(fileName: string): string[] {
+  return [
+    // Netlify runtime
+    `/var/task/config/docs-index/${fileName}`,
+    // Local dev
+    join(process.cwd(), 'config', 'docs-index', fileName),
   ];
+}
 
-  for (const p of possiblePaths) {
-    if (fs.existsSync(p)) {
-      return p;
+/**
+ * Load a file from config/docs-index/, checking each runtime location
+ */
+function loadDocsIndexFile<T>(fileName: string): T | null {
+  const possiblePaths = docsIndexPaths(fileName);
+
+  for (const indexPath of possiblePaths) {
+    try {
+      if (existsSync(indexPath)) {
+        const data = JSON.parse(readFileSync(indexPath, 'utf-8')) as T;
+        console.log(`Loaded docs ${fileName} from ${indexPath}`);
+        return data;
+      }
+    } catch (err) {
+      console.log(`Failed to load docs ${fileName} from ${indexPath}:`, err);
     }
   }
 
-  return possiblePaths[0]; // Default
+  console.warn(`Docs ${fileName} not found, run \`npm run export-docs\` to build it`);
+  return null;
 }
 
 /**
- * Read all markdown files from a directory recursively
+ * Load the docs index and its BM25 index (lazy loaded, cached in memory)
  */
-function readMarkdownFiles(dir: string): Array<{ path: string; content: string; name: string }> {
-  const results: Array<{ path: string; content: string; name: string }> = [];
-
-  try {
-    const items = fs.readdirSync(dir, { withFileTypes: true });
-
-    for (const item of items) {
-      const fullPath = path.join(dir, item.name);
-
-      if (item.isDirectory()) {
-        results.push(...readMarkdownFiles(fullPath));
-      } else if (item.name.endsWith('.md')) {
-        try {
-          const content = fs.readFileSync(fullPath, 'utf-8');
-          results.push({
-            path: fullPath,
-            content,
-            name: item.name.replace('.md', ''),
-          });
-        } catch (err) {
-          console.error(`Error reading ${fullPath}:`, err);
-        }
-      }
-    }
-  } catch (err) {
-    console.error(`Error reading directory ${dir}:`, err);
-  }
+function loadDocsIndexes(): void {
+  if (docsIndexLoaded) return;
+  docsIndexLoaded = true;
+  docsIndex = loadDocsIndexFile<DocsIndex>('index.json');
+  docsBM25Index = docsIndex ? loadDocsIndexFile<BM25Index>('bm25-index.json') : null;
+}
+
+function loadDocsIndex(): DocsIndex | null {
+  loadDocsIndexes();
+  return docsIndex;
+}
+
+function loadDocsBM25Index(): BM25Index | null {
+  loadDocsIndexes();
+  return docsBM25Index;
+}
 
-  return results;
+export interface DocsIndexMetadata {
+  available: boolean;
+  pageCount: number;
+  exportedAt?: string;
+  commit?: string;
+  committedAt?: string;
+  // Index file -> path it was found at, or null if missing
+  files: Record<string, string | null>;
+}
+
+/**
+ * Get docs index metadata, including the submodule commit it was built from
+ */
+export function getDocsIndexMetadata(): DocsIndexMetadata {
+  const index = loadDocsIndex();
+
+  return {
+    available: index !== null,
+    pageCount: index?.pages.length || 0,
+    exportedAt: index?.exportedAt,
+    commit: index?.commit,
+    committedAt: index?.committedAt,
+    files: Object.fromEntries(
+      ['index.json', 'bm25-index.json'].map((file) => [
+        file,
+        docsIndexPaths(file).find((p) => existsSync(p)) || null,
+      ])
+    ),
+  };
+}
+
+export interface DocsHit {
+  file: string;
+  title: string;
+  section: string;
+  url: string;
+  excerpt: string;
+  score: number;
+}
+
+/**
+ * Take an excerpt around the first place the query appears in a page
+ */
+function extractExcerpt(content: string, queryTerms: Map<string, number>): string {
+  const contentLower = content.toLowerCase();
+  const firstPosition = (terms: string[]) => {
+    const positions = terms.map((term) => contentLower.indexOf(term)).filter((i) => i >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+  };
+
+  // Prefer the words actually asked; fall back to their synonyms
+  const asked = [...queryTerms].filter(([, weight]) => weight === 1).map(([term]) => term);
+  let queryIndex = firstPosition(asked);
+  if (queryIndex < 0) queryIndex = firstPosition([...queryTerms.keys()]);
+  if (queryIndex < 0) queryIndex = 0;
+
+  const start = Math.max(0, queryIndex - 100);
+  const end = Math.min(content.length, queryIndex + 500);
+  const excerpt = content.slice(start, end).trim();
+
+  return excerpt.length > 600 ? excerpt.slice(0, 600) + '...' : excerpt;
+}
+
+/**
+ * Find the docs pages that best match a query (hybrid lexical + vector)
+ */
+export function findDocs(query: string, section?: string, limit = 5): DocsHit[] {
+  const index = loadDocsIndex();
+  const bm25 = loadDocsBM25Index();
+  if (!index || !bm25) return [];
+
+  // Unknown sections search everything
+  const searchSection = section && index.pages.some((p) => p.section === section) ? section : undefined;
+  const pages = new Map(
+    index.pages
+      .filter((p) => !searchSection || p.section === searchSection)
+      .map((p) => [`docs:${p.path}`, p])
+  );
+
+  const lexicalScores = new Map(
+    [...scoreBM25(bm25, expandQuery(query))]
+      .map(([docIndex, score]): [string, number] => [bm25.docIds[docIndex], score])
+      .filter(([id]) => pages.has(id))
+  );
+  const hits = rankHybrid(
+    query,
+    [...pages].map(([id, page]) => ({ id, text: `${page.title}\n${page.content}` })),
+    { lexicalScores, limit }
+  );
+
+  const queryTerms = expandQuery(query);
+  return hits.map((hit) => {
+    const page = pages.get(hit.id)!;
+    return {
+      file: page.path,
+      title: page.title,
+      section: page.section,
+      url: page.url,
+      excerpt: extractExcerpt(page.content, queryTerms),
+      score: hit.score,
+    };
+  });
+}
+
+/**
+ * Format a docs hit for Claude
+ */
+export function formatDocsHit(hit: DocsHit): string {
+  return `## ${hit.title} (${hit.file})\nSource: ${hit.url}\n\n${hit.excerpt}`;
 }
 
 /**
  * Search docs for a query string
  */
 export function searchDocs(query: string, section?: string): string {
-  const docsPath = getDocsPath();
-  const searchTerms = query.toLowerCase().split(/\s+/);
-
-  const sectionsToSearch = section && DOCS_SECTIONS.includes(section)
-    ? [section]
-    : DOCS_SECTIONS;
-
-  const results: Array<{ file: string; section: string; excerpt: string; score: number }> = [];
-
-  for (const sec of sectionsToSearch) {
-    const sectionPath = path.join(docsPath, sec);
-    const files = readMarkdownFiles(sectionPath);
-
-    for (const file of files) {
-      const contentLower = file.content.toLowerCase();
-      const nameLower = file.name.toLowerCase();
-
-      // Calculate relevance score
-      let score = 0;
-      for (const term of searchTerms) {
-        // Title matches worth more
-        if (nameLower.includes(term)) {
-          score += 10;
-        }
-        // Count occurrences in content
-        const regex = new RegExp(term, 'gi');
-        const matches = file.content.match(regex);
-        if (matches) {
-          score += matches.length;
-        }
-      }
-
-      if (score > 0) {
-        // Extract relevant excerpt
-        const queryIndex = contentLower.indexOf(searchTerms[0]);
-        const start = Math.max(0, queryIndex - 100);
-        const end = Math.min(file.content.length, queryIndex + 500);
-        const excerpt = file.content.slice(start, end).trim();
-
-        // Get relative path for URL
-        const relativePath = file.path.replace(docsPath + '/', '').replace('.md', '');
-
-        results.push({
-          file: relativePath,
-          section: sec,
-          excerpt: excerpt.length > 600 ? excerpt.slice(0, 600) + '...' : excerpt,
-          score,
-        });
-      }
-    }
+  if (!loadDocsIndex()) {
+    return 'Docs index not available';
   }
 
-  // Sort by score descending
-  results.sort((a, b) => b.score - a.score);
+  const results = findDocs(query, section);
 
   if (results.length === 0) {
     return `No results found for "${query}" in Zenlytic docs.`;
   }
 
-  // Return top 5 results
-  const topResults = results.slice(0, 5);
-  const output = topResults.map((r) => {
-    const url = `${SECTION_URLS[r.section]}/${r.file.replace(r.section + '/', '')}`;
-    return `## ${r.file}\nSource: ${url}\n\n${r.excerpt}`;
-  });
-
-  return output.join('\n\n---\n\n');
+  return results.map(formatDocsHit).join('\n\n---\n\n');
 }
 
 /**
- * Get full content of a specific docs page
+ * Look up a docs page by path (with or without its section or .md
+ * extension), docs.zenlytic.com URL, or title
  */
-export function getDocsPage(pagePath: string): string {
-  const docsPath = getDocsPath();
+function findDocsPage(pagePath: string): DocsPage | null {
+  const index = loadDocsIndex();
+  if (!index) return null;
 
   // Normalize the path
-  let normalizedPath = pagePath
+  const normalizedPath = pagePath
+    .trim()
+    .replace(/^https?:\/\/docs\.zenlytic\.com/, '')
     .replace(/^\//, '')
-    .replace(/\/$/, '');
-
-  // Add .md extension if missing
-  if (!normalizedPath.endsWith('.md')) {
-    normalizedPath += '.md';
-  }
-
-  const fullPath = path.join(docsPath, normalizedPath);
-
-  try {
-    if (!fs.existsSync(fullPath)) {
-      // Try to find the file
-      for (const section of DOCS_SECTIONS) {
-        const altPath = path.join(docsPath, section, normalizedPath);
-        if (fs.existsSync(altPath)) {
-          const content = fs.readFileSync(altPath, 'utf-8');
-          const url = `${SECTION_URLS[section]}/${normalizedPath.replace('.md', '')}`;
-          return `Source: ${url}\n\n${content}`;
-        }
-      }
-      return `Page not found: ${pagePath}`;
-    }
+    .replace(/\/$/, '')
+    .replace(/\.md$/, '');
+
+  return (
+    index.pages.find((p) => p.path === normalizedPath || p.url.endsWith(`/${normalizedPath}`)) ||
+    index.pages.find((p) => p.path.endsWith(`/${normalizedPath}`)) ||
+    index.pages.find((p) => p.title.toLowerCase() === normalizedPath.toLowerCase()) ||
+    null
+  );
+}
 
-    const content = fs.readFileSync(fullPath, 'utf-8');
+/**
+ * Format a full docs page for Claude
+ */
+function formatDocsPage(page: DocsPage): string {
+  // Frontmatter titles aren't part of the body
+  const heading = page.content.startsWith('# ') ? '' : `# ${page.title}\n\n`;
+  return `Source: ${page.url}\n\n${heading}${page.content}`;
+}
 
-    // Determine section for URL
-    const section = DOCS_SECTIONS.find((s) => normalizedPath.startsWith(s));
-    const url = section
-      ? `${SECTION_URLS[section]}/${normalizedPath.replace(section + '/', '').replace('.md', '')}`
-      : `https://docs.zenlytic.com/${normalizedPath.replace('.md', '')}`;
+/**
+ * Every page in the docs index
+ */
+export function listDocsPages(): DocsPage[] {
+  return loadDocsIndex()?.pages || [];
+}
 
-    return `Source: ${url}\n\n${content}`;
-  } catch (error) {
-    console.error('Error reading docs page:', error);
-    return `Error reading page: ${error instanceof Error ? error.message : 'Unknown'}`;
+/**
+ * Get full content of a specific docs page
+ */
+export function getDocsPage(pagePath: string): string {
+  if (!loadDocsIndex()) {
+    return 'Docs index not available';
   }
+
+  const page = findDocsPage(pagePath);
+  return page ? formatDocsPage(page) : `Page not found: ${pagePath}`;
 }
+
+/**
+ * Public docs as a knowledge source
+ */
+export const docsSource: KnowledgeSource = {
+  id: 'docs',
+  label: 'Docs',
+  priority: 20,
+  async search(query, limit) {
+    return findDocs(query, undefined, limit).map((hit) => ({
+      text: formatDocsHit(hit),
+      score: hit.score,
+      citation: `${hit.title}, ${hit.url}`,
+    }));
+  },
+  async fetch(ref) {
+    const page = findDocsPage(ref);
+    return page ? formatDocsPage(page) : null;
+  },
+  tools: [
+    {
+      definition: {
+        name: 'search_docs',
+        description: `Search Zenlytic's public documentation (docs.zenlytic.com).
+
+Use this for questions about:
+- Data sources and connections (Snowflake, BigQuery, Databricks, etc.)
+- Authentication (SSO, SAML, Okta, Microsoft Entra)
+- Security practices and IP whitelisting
+- Legal documents (Terms of Service, DPA, Subprocessors)
+- Customer support policies
+
+Sections available:
+- data-sources: Database connection setup guides
+- authentication-and-security: SSO, security features
+- legal-and-support: Legal docs, subprocessors, support policy`,
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Search query - e.g. "subprocessors", "snowflake setup", "okta SSO"',
+            },
+            section: {
+              type: 'string',
+              enum: ['data-sources', 'authentication-and-security', 'legal-and-support'],
+              description: 'Optional: limit search to a specific section',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      async run(input) {
+        const { query, section } = input as { query: string; section?: string };
+        return searchDocs(query, section);
+      },
+    },
+    {
+      definition: {
+        name: 'get_docs_page',
+        description: 'Get full content of a specific documentation page from docs.zenlytic.com',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            page_path: {
+              type: 'string',
+              description: 'Path to the page, e.g. "legal-and-support/legal/subprocessors" or "data-sources/snowflake_setup"',
+            },
+          },
+          required: ['page_path'],
+        },
+      },
+      async run(input) {
+        const { page_path } = input as { page_path: string };
+        return getDocsPage(page_path);
+      },
+    },
+  ],
+};
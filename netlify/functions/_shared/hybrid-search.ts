@@ -0,0 +1,198 @@
+/**
+ * Hybrid Search
+ *
+ * Combines lexical (BM25) and semantic (LSA vector) rankings with
+ * reciprocal rank fusion. Notion passages, docs pages and Q&A pairs are all
+ * ranked this way, so their scores can be merged into one ranking.
+ *
+ * Vectors come from config/notion-index/vectors.json, built by
+ * scripts/export-notion.ts. Texts without a stored vector are folded into
+ * the same space at query time, locally.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { buildBM25Index, scoreBM25 } from './bm25.js';
+import { embedText, embedTerms, cosineSimilarity, type LSAVectors } from './lsa.js';
+import { expandQuery } from './thesaurus.js';
+
+export interface HybridCandidate {
+  id: string;
+  text: string;
+  vector?: number[];
+}
+
+export interface HybridHit {
+  id: string;
+  score: number;
+  lexicalScore: number;
+  similarity: number;
+}
+
+// Reciprocal rank fusion constant (the usual value from the literature)
+const RRF_K = 60;
+// Vector matches are noisier than term matches, so count them for less
+const VECTOR_WEIGHT = 0.6;
+// Below this cosine similarity a vector match is treated as no match
+const MIN_SIMILARITY = 0.4;
+
+let vectors: LSAVectors | null = null;
+let vectorsLoaded = false;
+let storedVectors: Map<string, number[]> | null = null;
+const embeddingCache = new Map<string, { text: string; vector: number[] }>();
+
+/**
+ * Load the LSA model and passage vectors (lazy loaded, cached in memory)
+ */
+function loadVectors(): LSAVectors | null {
+  if (vectorsLoaded) return vectors;
+  vectorsLoaded = true;
+
+  const possiblePaths = [
+    // Netlify runtime
+    '/var/task/config/notion-index/vectors.json',
+    // Local dev
+    join(process.cwd(), 'config', 'notion-index', 'vectors.json'),
+  ];
+
+  for (const vectorsPath of possiblePaths) {
+    try {
+      if (existsSync(vectorsPath)) {
+        vectors = JSON.parse(readFileSync(vectorsPath, 'utf-8')) as LSAVectors;
+        storedVectors = new Map(vectors.docIds.map((id, i) => [id, vectors!.docVectors[i]]));
+        console.log(`Loaded LSA vectors from ${vectorsPath} (${vectors.terms.length} terms, ${vectors.dimensions} dims)`);
+        return vectors;
+      }
+    } catch (err) {
+      console.log(`Failed to load vectors from ${vectorsPath}:`, err);
+    }
+  }
+
+  console.warn('LSA vectors not found, falling back to lexical-only search');
+  return null;
+}
+
+/**
+ * Get the vector for a candidate: precomputed, cached, or folded in now
+ */
+function getVector(model: LSAVectors, candidate: HybridCandidate): number[] {
+  if (candidate.vector) return candidate.vector;
+
+  const stored = storedVectors?.get(candidate.id);
+  if (stored) return stored;
+
+  const cached = embeddingCache.get(candidate.id);
+  if (cached && cached.text === candidate.text) return cached.vector;
+
+  const vector = embedText(model, candidate.text);
+  embeddingCache.set(candidate.id, { text: candidate.text, vector });
+  return vector;
+}
+
+/**
+ * Cosine similarity of two weighted term sets
+ */
+function termCosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) dot += weight * (b.get(term) || 0);
+  const norm = (terms: Map<string, number>) => Math.sqrt([...terms.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * How alike two short texts (e.g. questions) are, from 0 to 1: the closer
+ * of their thesaurus-expanded term overlap and, when vectors are available,
+ * their LSA similarity. Unlike hybrid scores this is absolute, so it can be
+ * compared against a threshold.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const termsA = expandQuery(a);
+  const termsB = expandQuery(b);
+  const lexical = termCosine(termsA, termsB);
+
+  const model = loadVectors();
+  if (!model) return lexical;
+  return Math.max(lexical, cosineSimilarity(embedTerms(model, termsA), embedTerms(model, termsB)));
+}
+
+/**
+ * Reciprocal rank fusion score for a 0-based rank. Sources without their own
+ * scores (e.g. live Notion search) use this so their hits merge with ours.
+ */
+export function rankScore(rank: number, weight = 1): number {
+  return weight / (RRF_K + rank + 1);
+}
+
+/**
+ * Rank ids by score, highest first, returning id -> rank (0-based)
+ */
+function toRanks(scores: Map<string, number>): Map<string, number> {
+  return new Map(
+    [...scores]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id], rank) => [id, rank])
+  );
+}
+
+/**
+ * Rank candidates for a query by fusing lexical and vector rankings.
+ *
+ * The query is expanded with security synonyms and acronyms (thesaurus.ts)
+ * for both rankings. Pass lexicalScores when a prebuilt BM25 index already
+ * scored the candidates; otherwise a BM25 index is built over the candidates
+ * on the fly.
+ */
+export function rankHybrid(
+  query: string,
+  candidates: HybridCandidate[],
+  options: { lexicalScores?: Map<string, number>; limit?: number } = {}
+): HybridHit[] {
+  const queryTerms = expandQuery(query);
+
+  let lexicalScores = options.lexicalScores;
+  if (!lexicalScores) {
+    const index = buildBM25Index(candidates);
+    lexicalScores = new Map(
+      [...scoreBM25(index, queryTerms)].map(([docIndex, score]) => [index.docIds[docIndex], score])
+    );
+  }
+
+  const similarities = new Map<string, number>();
+  const model = loadVectors();
+  if (model) {
+    const queryVector = embedTerms(model, queryTerms);
+    if (queryVector.some((v) => v !== 0)) {
+      for (const candidate of candidates) {
+        const similarity = cosineSimilarity(queryVector, getVector(model, candidate));
+        if (similarity >= MIN_SIMILARITY) {
+          similarities.set(candidate.id, similarity);
+        }
+      }
+    }
+  }
+
+  const lexicalRanks = toRanks(new Map([...lexicalScores].filter(([, s]) => s > 0)));
+  const vectorRanks = toRanks(similarities);
+
+  const hits: HybridHit[] = [];
+  for (const candidate of candidates) {
+    const lexicalRank = lexicalRanks.get(candidate.id);
+    const vectorRank = vectorRanks.get(candidate.id);
+    if (lexicalRank === undefined && vectorRank === undefined) continue;
+
+    const score =
+      (lexicalRank !== undefined ? rankScore(lexicalRank) : 0) +
+      (vectorRank !== undefined ? rankScore(vectorRank, VECTOR_WEIGHT) : 0);
+
+    hits.push({
+      id: candidate.id,
+      score,
+      lexicalScore: lexicalScores.get(candidate.id) || 0,
+      similarity: similarities.get(candidate.id) || 0,
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
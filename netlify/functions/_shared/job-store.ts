@@ -3,6 +3,7 @@
  */
 
 import { getStore } from '@netlify/blobs';
+import type { AskResult } from './claude.js';
 
 export interface BatchJob {
   id: string;
@@ -14,6 +15,11 @@ export interface BatchJob {
     question: string;
     answer: string;
     citations: string[];
+    provenance?: AskResult['provenance'];
+    qaMatch?: AskResult['qaMatch'];
+    structured?: AskResult['structured'];
+    citationChecks?: AskResult['citationChecks'];
+    citedSources?: AskResult['citedSources'];
     error?: string;
   }>;
   progress: number; // 0-100
@@ -0,0 +1,103 @@
+/**
+ * Knowledge Base Status
+ *
+ * Reports how fresh and complete the exported knowledge base is: when the
+ * Notion and docs indexes were built, what they contain, which files the
+ * functions could find, and warnings when something is missing or older
+ * than KB_STALE_AFTER_DAYS. The docs index is rebuilt on every deploy, so
+ * its age is that of the docs submodule commit it was built from.
+ */
+
+import { getIndexMetadata, type IndexMetadata } from './notion-index.js';
+import { getDocsIndexMetadata, type DocsIndexMetadata } from './docs-tools.js';
+import { getAllQAPairs, isQAPairOverdue, QA_STATUSES, type QAStatus } from './qa-store.js';
+
+// The weekly sync plus a few days of slack
+const DEFAULT_STALE_AFTER_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface KnowledgeBaseStatus {
+  checkedAt: string;
+  staleAfterDays: number;
+  stale: boolean;
+  warnings: string[];
+  notion: IndexMetadata & { ageDays: number | null };
+  docs: DocsIndexMetadata & { ageDays: number | null };
+  // overdue: approved pairs past their review-by date
+  qa: { count: number; byStatus: Record<QAStatus, number>; overdue: number };
+}
+
+/**
+ * Staleness threshold in days, from KB_STALE_AFTER_DAYS
+ */
+function getStaleAfterDays(): number {
+  const days = Number(process.env.KB_STALE_AFTER_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_STALE_AFTER_DAYS;
+}
+
+/**
+ * Whole days since a timestamp, or null if there is none
+ */
+function ageInDays(timestamp: string | undefined, now: number): number | null {
+  if (!timestamp) return null;
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? null : Math.floor((now - time) / DAY_MS);
+}
+
+/**
+ * Collect the status of every part of the knowledge base
+ */
+export async function getKnowledgeBaseStatus(): Promise<KnowledgeBaseStatus> {
+  const now = Date.now();
+  const staleAfterDays = getStaleAfterDays();
+  const warnings: string[] = [];
+  let stale = false;
+
+  const notion = getIndexMetadata();
+  const notionAge = ageInDays(notion.exportedAt, now);
+  if (!notion.available) {
+    warnings.push('Notion index is missing; answers fall back to the live Notion API');
+  } else if (notionAge === null || notionAge > staleAfterDays) {
+    stale = true;
+    warnings.push(`Notion export is ${notionAge ?? 'an unknown number of'} days old (threshold ${staleAfterDays})`);
+  }
+  for (const [file, path] of Object.entries(notion.files)) {
+    if (!path) warnings.push(`Notion index file ${file} not found`);
+  }
+
+  const docs = getDocsIndexMetadata();
+  const docsAge = ageInDays(docs.committedAt || docs.exportedAt, now);
+  if (!docs.available) {
+    warnings.push('Docs index is missing; run `npm run export-docs`');
+  } else if (docsAge === null || docsAge > staleAfterDays) {
+    stale = true;
+    warnings.push(
+      docs.committedAt
+        ? `Docs submodule commit is ${docsAge} days old (threshold ${staleAfterDays}); check the docs sync workflow`
+        : `Docs index is ${docsAge ?? 'an unknown number of'} days old (threshold ${staleAfterDays})`
+    );
+  }
+
+  const qaPairs = await getAllQAPairs();
+  const byStatus = Object.fromEntries(
+    QA_STATUSES.map((status) => [status, qaPairs.filter((pair) => pair.status === status).length])
+  ) as Record<QAStatus, number>;
+  if (byStatus.approved === 0) {
+    warnings.push('No approved Q&A pairs');
+  }
+  const overdue = qaPairs.filter((pair) => pair.status === 'approved' && isQAPairOverdue(pair)).length;
+  if (overdue > 0) {
+    warnings.push(`${overdue} approved Q&A pair${overdue === 1 ? ' is' : 's are'} past ${overdue === 1 ? 'its' : 'their'} review-by date`);
+  }
+
+  return {
+    checkedAt: new Date(now).toISOString(),
+    staleAfterDays,
+    stale,
+    warnings,
+    notion: { ...notion, ageDays: notionAge },
+    docs: { ...docs, ageDays: docsAge },
+    qa: { count: qaPairs.length, byStatus, overdue },
+  };
+}
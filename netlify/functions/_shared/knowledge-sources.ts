@@ -0,0 +1,152 @@
+/**
+ * Knowledge Sources
+ *
+ * Every place Claude can get facts from (local Notion index, live Notion,
+ * docs, approved Q&A pairs) implements KnowledgeSource and is registered
+ * here. Prefetch queries all of them in parallel and merges their hits into
+ * one ranking within a token budget; the tools offered to Claude are the
+ * union of each source's tools. Adding a source means implementing the
+ * interface and adding it to SOURCES, without touching claude.ts.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { notionIndexSource } from './notion-index.js';
+import { liveNotionSource } from './notion-tools.js';
+import { docsSource } from './docs-tools.js';
+import { qaSource } from './qa-store.js';
+
+export interface KnowledgeHit {
+  // Formatted for Claude
+  text: string;
+  // Hybrid (reciprocal rank fusion) score, comparable across sources
+  score: number;
+  // How Claude should cite this hit, without brackets
+  citation: string;
+}
+
+export interface KnowledgeTool {
+  definition: Anthropic.Tool;
+  run(input: Record<string, unknown>): Promise<string>;
+}
+
+export interface KnowledgeSource {
+  id: string;
+  // Heading for this source's hits in the prefetched context
+  label: string;
+  // Breaks score ties and orders the context; higher comes first
+  priority: number;
+  // Ranked hits for a question (empty when the source is unavailable)
+  search(query: string, limit: number): Promise<KnowledgeHit[]>;
+  // Full content of one item (page id, docs path, ...), or null if unknown
+  fetch(ref: string): Promise<string | null>;
+  tools: KnowledgeTool[];
+}
+
+export interface PrefetchedContext {
+  context: string;
+  // Labels of the sources that contributed hits
+  sources: string[];
+  // How the included hits are cited, in ranked order
+  citations: string[];
+}
+
+// Registration order is the order tools are offered to Claude
+const SOURCES: KnowledgeSource[] = [
+  notionIndexSource,
+  liveNotionSource,
+  qaSource,
+  docsSource,
+];
+
+// Hits requested from each source before the merge
+const HITS_PER_SOURCE = 8;
+// Budget for prefetched context across all sources
+const MAX_CONTEXT_TOKENS = 3000;
+
+/**
+ * Rough token count (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * All registered sources, highest priority first
+ */
+export function getKnowledgeSources(): KnowledgeSource[] {
+  return [...SOURCES].sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Tool definitions offered to Claude
+ */
+export function getKnowledgeTools(): Anthropic.Tool[] {
+  return SOURCES.flatMap((source) => source.tools.map((tool) => tool.definition));
+}
+
+/**
+ * Run a tool call against the source that owns the tool
+ */
+export async function runKnowledgeTool(
+  toolName: string,
+  toolInput: Record<string, unknown>
+): Promise<string> {
+  console.log(`Tool call: ${toolName}`, toolInput);
+
+  for (const source of SOURCES) {
+    const tool = source.tools.find((t) => t.definition.name === toolName);
+    if (tool) return await tool.run(toolInput);
+  }
+
+  return `Unknown tool: ${toolName}`;
+}
+
+/**
+ * Search every source in parallel and keep the best hits across all of them
+ * within the token budget, grouped by source
+ */
+export async function prefetchKnowledge(
+  question: string,
+  maxTokens = MAX_CONTEXT_TOKENS
+): Promise<PrefetchedContext> {
+  const sources = getKnowledgeSources();
+
+  const results = await Promise.all(
+    sources.map(async (source) => {
+      try {
+        return await source.search(question, HITS_PER_SOURCE);
+      } catch (err) {
+        console.error(`Knowledge source ${source.id} failed:`, err);
+        return [];
+      }
+    })
+  );
+
+  const ranked = results
+    .flatMap((hits, i) => hits.map((hit) => ({ hit, source: sources[i] })))
+    .sort((a, b) => b.hit.score - a.hit.score || b.source.priority - a.source.priority);
+
+  const bySource = new Map<KnowledgeSource, string[]>();
+  const citations: string[] = [];
+  let tokens = 0;
+  for (const { hit, source } of ranked) {
+    const text = `${hit.text}\n\n*Cite as: [${hit.citation}]*`;
+    const cost = estimateTokens(text);
+    if (tokens + cost > maxTokens) continue;
+    tokens += cost;
+    citations.push(hit.citation);
+    bySource.set(source, [...(bySource.get(source) || []), text]);
+  }
+
+  let context = '';
+  for (const source of sources) {
+    const texts = bySource.get(source);
+    if (texts) context += `\n\n### From ${source.label}:\n${texts.join('\n\n---\n\n')}`;
+  }
+
+  return {
+    context,
+    sources: [...bySource.keys()].map((s) => s.label),
+    citations: [...new Set(citations)],
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Latent Semantic Analysis
+ *
+ * Builds a low-dimensional vector space from a TF-IDF matrix with a
+ * truncated SVD, so passages that use different words for the same idea
+ * ("least privilege" / "role-based access") land near each other. The model
+ * is computed by scripts/export-notion.ts; at query time any text is folded
+ * into the space locally, with no network calls.
+ */
+
+import { tokenize, type BM25Document } from './bm25.js';
+
+export interface LSAModel {
+  dimensions: number;
+  terms: string[];
+  idf: number[];
+  // terms.length x dimensions, the right singular vectors
+  termVectors: number[][];
+}
+
+export interface LSAVectors extends LSAModel {
+  docIds: string[];
+  // Unit-length document vectors in the LSA space
+  docVectors: number[][];
+}
+
+const DEFAULT_DIMENSIONS = 48;
+// Extra random directions and power iterations for the randomized SVD
+const OVERSAMPLING = 10;
+const POWER_ITERATIONS = 3;
+// Stored vectors are rounded to keep vectors.json small
+const PRECISION = 3;
+
+type SparseRow = Array<[number, number]>;
+
+/**
+ * Deterministic PRNG so re-exports of unchanged content produce the same file
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Log-scaled term frequencies for a piece of text
+ */
+function termFrequencyWeights(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return new Map([...counts].map(([term, tf]) => [term, 1 + Math.log(tf)]));
+}
+
+/**
+ * Unit-length TF-IDF row for a set of weighted terms
+ */
+function weightTerms(termWeights: Map<string, number>, termIndex: Map<string, number>, idf: number[]): SparseRow {
+  const row: SparseRow = [];
+  for (const [term, weight] of termWeights) {
+    const t = termIndex.get(term);
+    if (t !== undefined) row.push([t, weight * idf[t]]);
+  }
+
+  const norm = Math.sqrt(row.reduce((sum, [, w]) => sum + w * w, 0));
+  return norm > 0 ? row.map(([t, w]) => [t, w / norm]) : row;
+}
+
+/**
+ * Orthonormalize the columns of an n x l matrix (modified Gram-Schmidt)
+ */
+function orthonormalizeColumns(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const l = matrix[0]?.length || 0;
+  const q = matrix.map((row) => [...row]);
+
+  for (let j = 0; j < l; j++) {
+    for (let k = 0; k < j; k++) {
+      let dot = 0;
+      for (let i = 0; i < n; i++) dot += q[i][j] * q[i][k];
+      for (let i = 0; i < n; i++) q[i][j] -= dot * q[i][k];
+    }
+    let norm = 0;
+    for (let i = 0; i < n; i++) norm += q[i][j] * q[i][j];
+    norm = Math.sqrt(norm);
+    for (let i = 0; i < n; i++) q[i][j] = norm > 1e-10 ? q[i][j] / norm : 0;
+  }
+
+  return q;
+}
+
+/**
+ * Eigen-decomposition of a small symmetric matrix (cyclic Jacobi).
+ * Returns eigenvalues and eigenvectors (as columns), sorted descending.
+ */
+function symmetricEigen(input: number[][]): { values: number[]; vectors: number[][] } {
+  const n = input.length;
+  const a = input.map((row) => [...row]);
+  const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-18) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((x, y) => a[y][y] - a[x][x]);
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: v.map((row) => order.map((i) => row[i])),
+  };
+}
+
+/**
+ * Build an LSA space over a set of documents using a randomized truncated SVD
+ */
+export function buildLSAVectors(docs: BM25Document[], dimensions = DEFAULT_DIMENSIONS): LSAVectors {
+  const docTokens = docs.map((d) => new Set(tokenize(d.text)));
+  const n = docs.length;
+
+  // Vocabulary: terms in at least two documents but not in most of them
+  const df = new Map<string, number>();
+  for (const tokens of docTokens) {
+    for (const token of tokens) df.set(token, (df.get(token) || 0) + 1);
+  }
+  const terms = [...df]
+    .filter(([, count]) => count >= 2 && count <= n * 0.5)
+    .map(([term]) => term)
+    .sort();
+  const termIndex = new Map(terms.map((t, i) => [t, i]));
+  const idf = terms.map((t) => Math.log(n / df.get(t)!));
+  const m = terms.length;
+
+  const rows = docs.map((d) => weightTerms(termFrequencyWeights(d.text), termIndex, idf));
+  const k = Math.min(dimensions, n, m);
+  const l = Math.min(k + OVERSAMPLING, n, m);
+
+  // A * X for an m x l matrix X
+  const multiply = (x: number[][]): number[][] =>
+    rows.map((row) => {
+      const out = new Array(l).fill(0);
+      for (const [t, w] of row) {
+        for (let j = 0; j < l; j++) out[j] += w * x[t][j];
+      }
+      return out;
+    });
+
+  // A^T * Y for an n x l matrix Y
+  const multiplyTransposed = (y: number[][]): number[][] => {
+    const out = Array.from({ length: m }, () => new Array(l).fill(0));
+    rows.forEach((row, d) => {
+      for (const [t, w] of row) {
+        for (let j = 0; j < l; j++) out[t][j] += w * y[d][j];
+      }
+    });
+    return out;
+  };
+
+  // Range finder with power iterations
+  const random = mulberry32(42);
+  const gaussian = () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+  const omega = Array.from({ length: m }, () => Array.from({ length: l }, gaussian));
+
+  let q = orthonormalizeColumns(multiply(omega));
+  for (let i = 0; i < POWER_ITERATIONS; i++) {
+    q = orthonormalizeColumns(multiply(orthonormalizeColumns(multiplyTransposed(q))));
+  }
+
+  // B = Q^T A is small (l x m); its SVD gives the top singular vectors of A
+  const bt = multiplyTransposed(q); // m x l, i.e. B transposed
+  const bbt = Array.from({ length: l }, (_, i) =>
+    Array.from({ length: l }, (_, j) => {
+      let sum = 0;
+      for (let t = 0; t < m; t++) sum += bt[t][i] * bt[t][j];
+      return sum;
+    })
+  );
+  const { values, vectors } = symmetricEigen(bbt);
+
+  // V[:, i] = B^T u_i / sigma_i
+  const termVectors = Array.from({ length: m }, () => new Array(k).fill(0));
+  for (let i = 0; i < k; i++) {
+    const sigma = Math.sqrt(Math.max(values[i], 1e-12));
+    for (let t = 0; t < m; t++) {
+      let sum = 0;
+      for (let j = 0; j < l; j++) sum += bt[t][j] * vectors[j][i];
+      termVectors[t][i] = sum / sigma;
+    }
+  }
+
+  const round = (v: number) => Number(v.toPrecision(PRECISION));
+  const model: LSAModel = {
+    dimensions: k,
+    terms,
+    idf: idf.map(round),
+    termVectors: termVectors.map((row) => row.map(round)),
+  };
+
+  return {
+    ...model,
+    docIds: docs.map((d) => d.id),
+    docVectors: docs.map((d) => embedText(model, d.text).map(round)),
+  };
+}
+
+/**
+ * Fold a piece of text into the LSA space. Returns a unit-length vector
+ * (all zeros when none of its terms are in the vocabulary).
+ */
+export function embedText(model: LSAModel, text: string): number[] {
+  return embedTerms(model, termFrequencyWeights(text));
+}
+
+/**
+ * Fold a set of weighted terms (e.g. an expanded query) into the LSA space
+ */
+export function embedTerms(model: LSAModel, termWeights: Map<string, number>): number[] {
+  const termIndex = getTermIndex(model);
+  const vector = new Array(model.dimensions).fill(0);
+
+  for (const [t, w] of weightTerms(termWeights, termIndex, model.idf)) {
+    const termVector = model.termVectors[t];
+    for (let i = 0; i < model.dimensions; i++) vector[i] += w * termVector[i];
+  }
+
+  return normalize(vector);
+}
+
+const termIndexCache = new WeakMap<LSAModel, Map<string, number>>();
+
+function getTermIndex(model: LSAModel): Map<string, number> {
+  let index = termIndexCache.get(model);
+  if (!index) {
+    index = new Map(model.terms.map((t, i) => [t, i]));
+    termIndexCache.set(model, index);
+  }
+  return index;
+}
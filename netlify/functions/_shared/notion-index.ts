@@ -7,6 +7,11 @@
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { scoreBM25, type BM25Index } from './bm25.js';
+import { rankHybrid } from './hybrid-search.js';
+import { expandQuery } from './thesaurus.js';
+import { resolvePageIds } from './controls.js';
+import type { KnowledgeSource } from './knowledge-sources.js';
 
 interface IndexedPage {
   id: string;
@@ -30,8 +35,22 @@ interface FullIndex {
   pages: FullPage[];
 }
 
+export interface Passage {
+  id: string;
+  pageId: string;
+  title: string;
+  parent: string;
+  headingPath: string[];
+  content: string;
+}
+
 let searchIndex: IndexedPage[] | null = null;
 let fullIndex: FullIndex | null = null;
+let passages: Passage[] | null = null;
+let bm25Index: BM25Index | null = null;
+
+// Keep one long page from crowding out every other result
+const MAX_PASSAGES_PER_PAGE = 2;
 
 /**
  * Load the search index (lazy loaded, cached in memory)
@@ -96,120 +115,289 @@ function loadFullIndex(): FullIndex | null {
 }
 
 /**
- * Calculate relevance score for a page given a query
+ * Load the BM25 inverted index built by scripts/export-notion.ts
  */
-function scoreMatch(page: IndexedPage, queryTerms: string[]): number {
-  let score = 0;
-  const titleLower = page.title.toLowerCase();
-  const snippetLower = page.snippet.toLowerCase();
-  const keywordsLower = page.keywords.map((k) => k.toLowerCase());
-
-  for (const term of queryTerms) {
-    // Exact keyword match (highest priority)
-    if (keywordsLower.includes(term)) {
-      score += 10;
-    }
-    // Keyword contains term
-    else if (keywordsLower.some((k) => k.includes(term))) {
-      score += 5;
-    }
+function loadBM25Index(): BM25Index | null {
+  if (bm25Index) return bm25Index;
 
-    // Title contains term (high priority)
-    if (titleLower.includes(term)) {
-      score += 8;
-    }
+  const possiblePaths = [
+    // Netlify runtime
+    '/var/task/config/notion-index/bm25-index.json',
+    // Local dev
+    join(process.cwd(), 'config', 'notion-index', 'bm25-index.json'),
+  ];
 
-    // Snippet contains term
-    if (snippetLower.includes(term)) {
-      score += 3;
+  for (const indexPath of possiblePaths) {
+    try {
+      if (existsSync(indexPath)) {
+        const data = readFileSync(indexPath, 'utf-8');
+        bm25Index = JSON.parse(data);
+        console.log(`Loaded BM25 index from ${indexPath} (${bm25Index!.docCount} docs)`);
+        return bm25Index;
+      }
+    } catch (err) {
+      console.log(`Failed to load BM25 index from ${indexPath}:`, err);
     }
+  }
+
+  console.warn('BM25 index not found, run `npm run export-notion` to build it');
+  return null;
+}
 
-    // CC control number exact match
-    if (/^cc[\d\.]+$/i.test(term) && keywordsLower.includes(term)) {
-      score += 15;
+/**
+ * Load the heading-aware passages written by scripts/export-notion.ts
+ */
+function loadPassages(): Passage[] {
+  if (passages) return passages;
+
+  const possiblePaths = [
+    // Netlify runtime
+    '/var/task/config/notion-index/passages.json',
+    // Local dev
+    join(process.cwd(), 'config', 'notion-index', 'passages.json'),
+  ];
+
+  for (const indexPath of possiblePaths) {
+    try {
+      if (existsSync(indexPath)) {
+        const data = readFileSync(indexPath, 'utf-8');
+        passages = JSON.parse(data);
+        console.log(`Loaded passages from ${indexPath} (${passages!.length} passages)`);
+        return passages!;
+      }
+    } catch (err) {
+      console.log(`Failed to load passages from ${indexPath}:`, err);
     }
   }
 
-  return score;
+  console.warn('Passages not found, run `npm run export-notion` to build them');
+  return [];
+}
+
+/**
+ * Rank passages for a query, fusing BM25 and vector similarity over the
+ * synonym-expanded query
+ */
+export function searchLocalPassages(
+  query: string,
+  limit = 5
+): Array<{ passage: Passage; score: number }> {
+  const index = loadBM25Index();
+  const all = loadPassages();
+  if (!index || all.length === 0) return [];
+
+  const passagesById = new Map(all.map((p) => [p.id, p]));
+  const perPage = new Map<string, number>();
+  // Some pages are duplicated in Notion under a different id
+  const seenContent = new Set<string>();
+
+  const lexicalScores = new Map(
+    [...scoreBM25(index, expandQuery(query))].map(([docIndex, score]) => [index.docIds[docIndex], score])
+  );
+  const hits = rankHybrid(
+    query,
+    all.map((p) => ({ id: p.id, text: p.content })),
+    { lexicalScores }
+  );
+
+  return hits
+    .map((hit) => ({ passage: passagesById.get(hit.id)!, score: hit.score }))
+    .filter(({ passage }) => {
+      if (seenContent.has(passage.content)) return false;
+      seenContent.add(passage.content);
+      const count = perPage.get(passage.pageId) || 0;
+      perPage.set(passage.pageId, count + 1);
+      return count < MAX_PASSAGES_PER_PAGE;
+    })
+    .slice(0, limit);
+}
+
+/**
+ * Format a passage with the page and section it came from
+ */
+export function formatPassage(passage: Passage): string {
+  const section = passage.headingPath.length > 0 ? ` › ${passage.headingPath.join(' › ')}` : '';
+  return `## ${passage.title}${section}\n**Parent:** ${passage.parent}\n\n${passage.content}`;
 }
 
 /**
  * Search the local Notion index
+ *
+ * Returns the best-matching passages (sections between headings) rather
+ * than the opening text of each page.
  */
 export function searchLocalIndex(query: string, limit = 5): string {
-  const index = loadSearchIndex();
-  if (index.length === 0) {
+  if (!hasLocalIndex()) {
     return 'Local index not available';
   }
 
-  // Tokenize query
-  const queryTerms = query
-    .toLowerCase()
-    .split(/[\s,]+/)
-    .filter((t) => t.length > 2);
-
-  // Score all pages
-  const scored = index
-    .map((page) => ({
-      page,
-      score: scoreMatch(page, queryTerms),
-    }))
-    .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+  const scored = searchLocalPassages(query, limit);
 
   if (scored.length === 0) {
     return `No local results for "${query}"`;
   }
 
-  // Format results
   return scored
-    .map(({ page, score }) => {
-      return `## ${page.title}\n**Parent:** ${page.parent}\n**Keywords:** ${page.keywords.join(', ')}\n\n${page.snippet}...`;
-    })
+    .map(({ passage }) => formatPassage(passage))
     .join('\n\n---\n\n');
 }
 
+/**
+ * Format a full page from the local index
+ */
+function formatFullPage(page: FullPage): string {
+  return `# ${page.title}\n\n**Parent:** ${page.parent}\n**Keywords:** ${page.keywords.join(', ')}\n\n${page.content}`;
+}
+
 /**
  * Get full page content from local index
+ *
+ * Accepts a page id, a control number (every page titled with it is
+ * returned), a page alias or a title.
  */
 export function getLocalPage(pageIdOrTitle: string): string | null {
   const index = loadFullIndex();
   if (!index) return null;
 
+  const normalizeId = (id: string) => id.replace(/-/g, '');
+
+  // Control numbers and aliases from the generated registry
+  const resolvedIds = resolvePageIds(pageIdOrTitle).map(normalizeId);
+  if (resolvedIds.length > 0) {
+    const pages = resolvedIds
+      .map((id) => index.pages.find((p) => normalizeId(p.id) === id))
+      .filter((p): p is FullPage => p !== undefined);
+    if (pages.length > 0) {
+      return pages.map(formatFullPage).join('\n\n---\n\n');
+    }
+  }
+
   const searchLower = pageIdOrTitle.toLowerCase();
 
   // Find by ID or title
   const page = index.pages.find(
     (p) =>
       p.id === pageIdOrTitle ||
-      p.id.replace(/-/g, '') === pageIdOrTitle.replace(/-/g, '') ||
+      normalizeId(p.id) === normalizeId(pageIdOrTitle) ||
       p.title.toLowerCase() === searchLower ||
       p.title.toLowerCase().includes(searchLower)
   );
 
   if (!page) return null;
 
-  return `# ${page.title}\n\n**Parent:** ${page.parent}\n**Keywords:** ${page.keywords.join(', ')}\n\n${page.content}`;
+  return formatFullPage(page);
+}
+
+// Length of the opening text listLocalPages returns for each page
+const PAGE_SNIPPET_LENGTH = 240;
+
+/**
+ * Every page in the local index, with the opening of its content rather
+ * than all of it
+ */
+export function listLocalPages(): Array<{
+  id: string;
+  title: string;
+  parent: string;
+  lastUpdated: string;
+  snippet: string;
+}> {
+  return (loadFullIndex()?.pages || []).map(({ id, title, parent, lastUpdated, content }) => ({
+    id,
+    title: title.trim(),
+    parent,
+    lastUpdated,
+    snippet: content.replace(/\s+/g, ' ').trim().slice(0, PAGE_SNIPPET_LENGTH),
+  }));
 }
 
 /**
  * Check if local index is available
  */
 export function hasLocalIndex(): boolean {
-  return loadSearchIndex().length > 0;
+  return loadPassages().length > 0 && loadBM25Index() !== null;
+}
+
+// Files written by scripts/export-notion.ts
+const INDEX_FILES = [
+  'index.json',
+  'search-index.json',
+  'passages.json',
+  'bm25-index.json',
+  'vectors.json',
+  'controls.json',
+];
+
+export interface IndexMetadata {
+  available: boolean;
+  pageCount: number;
+  exportedAt?: string;
+  // Root page title -> number of pages exported under it (including itself)
+  pagesByRoot: Record<string, number>;
+  // Index file -> path it was found at, or null if missing
+  files: Record<string, string | null>;
+}
+
+/**
+ * Find an index file in the runtime locations the loaders check
+ */
+function findIndexFile(fileName: string): string | null {
+  const possiblePaths = [
+    // Netlify runtime
+    `/var/task/config/notion-index/${fileName}`,
+    // Local dev
+    join(process.cwd(), 'config', 'notion-index', fileName),
+  ];
+  return possiblePaths.find((p) => existsSync(p)) || null;
 }
 
 /**
  * Get index metadata
  */
-export function getIndexMetadata(): { available: boolean; pageCount: number; exportedAt?: string } {
+export function getIndexMetadata(): IndexMetadata {
   const index = loadSearchIndex();
   const full = loadFullIndex();
 
+  // Walk each page up its parent titles to the root page it was exported under
+  const pagesByRoot: Record<string, number> = {};
+  if (full) {
+    const parentOf = new Map(full.pages.map((p) => [p.title, p.parent]));
+    for (const page of full.pages) {
+      let root = page.title;
+      for (let hops = 0; parentOf.get(root) && parentOf.get(root) !== 'root' && hops < 10; hops++) {
+        root = parentOf.get(root)!;
+      }
+      pagesByRoot[root] = (pagesByRoot[root] || 0) + 1;
+    }
+  }
+
   return {
     available: index.length > 0,
     pageCount: index.length,
     exportedAt: full?.exportedAt,
+    pagesByRoot,
+    files: Object.fromEntries(INDEX_FILES.map((file) => [file, findIndexFile(file)])),
   };
 }
+
+/**
+ * Local Notion index as a knowledge source. Claude reaches Notion through
+ * the live source's tools, so this one only serves prefetch and fetch.
+ */
+export const notionIndexSource: KnowledgeSource = {
+  id: 'notion-index',
+  label: 'Notion (local index)',
+  priority: 40,
+  async search(query, limit) {
+    if (!hasLocalIndex()) return [];
+    return searchLocalPassages(query, limit).map(({ passage, score }) => ({
+      text: formatPassage(passage),
+      score,
+      citation: `${passage.title}, ${passage.parent}`,
+    }));
+  },
+  async fetch(ref) {
+    return getLocalPage(ref);
+  },
+  tools: [],
+};
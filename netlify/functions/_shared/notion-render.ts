@@ -0,0 +1,329 @@
+/**
+ * Notion Renderer
+ *
+ * Renders Notion blocks to markdown, recursing into nested blocks: list
+ * items with sub-items, toggles, callouts, column layouts, synced blocks,
+ * tables and child databases. Shared by scripts/export-notion.ts and the
+ * live Notion fallback in notion-tools.ts so both see the same content.
+ */
+
+import type { Client } from '@notionhq/client';
+
+// The parts of the Notion client rendering needs
+export type NotionRenderClient = Pick<Client, 'blocks' | 'databases'>;
+
+export interface RenderedPage {
+  content: string;
+  // Child pages found anywhere on the page, including inside toggles/columns
+  childPages: Array<{ id: string; title: string }>;
+  // Whether content comes from outside the page (child database rows, synced
+  // copies of other blocks), so editing it doesn't change the page's
+  // last_edited_time
+  embedsOtherContent: boolean;
+}
+
+// Nested blocks deeper than this are not fetched
+const DEFAULT_MAX_DEPTH = 6;
+
+interface RenderContext {
+  client: NotionRenderClient;
+  maxDepth: number;
+  childPages: Array<{ id: string; title: string }>;
+  embedsOtherContent: boolean;
+}
+
+/**
+ * Extract plain text from rich text array
+ */
+export function extractText(richText: any[] | undefined): string {
+  if (!richText) return '';
+  return richText.map((t: any) => t.plain_text || '').join('');
+}
+
+/**
+ * Get page title from properties
+ */
+export function getPageTitle(page: any): string {
+  const properties = page.properties || {};
+  const titleProp =
+    properties.title?.title ||
+    properties.Name?.title ||
+    (Object.values(properties) as any[]).find((p) => p?.type === 'title')?.title;
+  return titleProp?.[0]?.plain_text || 'Untitled';
+}
+
+/**
+ * Fetch all children of a block or page (with pagination)
+ */
+export async function fetchAllBlocks(client: Pick<Client, 'blocks'>, blockId: string): Promise<any[]> {
+  const blocks: any[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await client.blocks.children.list({
+      block_id: blockId,
+      page_size: 100,
+      start_cursor: cursor,
+    });
+    blocks.push(...response.results);
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return blocks;
+}
+
+/**
+ * Fetch all rows of a database (with pagination)
+ */
+async function fetchAllRows(client: Pick<Client, 'databases'>, databaseId: string): Promise<any[]> {
+  const rows: any[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await client.databases.query({
+      database_id: databaseId,
+      page_size: 100,
+      start_cursor: cursor,
+    });
+    rows.push(...response.results);
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+
+  return rows;
+}
+
+/**
+ * Plain-text value of a database property
+ */
+function propertyToText(property: any): string {
+  switch (property?.type) {
+    case 'title':
+    case 'rich_text':
+      return extractText(property[property.type]);
+    case 'select':
+    case 'status':
+      return property[property.type]?.name || '';
+    case 'multi_select':
+      return (property.multi_select || []).map((o: any) => o.name).join(', ');
+    case 'people':
+      return (property.people || []).map((p: any) => p.name || p.id).join(', ');
+    case 'date':
+      return property.date ? [property.date.start, property.date.end].filter(Boolean).join(' → ') : '';
+    case 'checkbox':
+      return property.checkbox ? 'Yes' : 'No';
+    case 'number':
+      return property.number === null || property.number === undefined ? '' : String(property.number);
+    case 'url':
+    case 'email':
+    case 'phone_number':
+    case 'created_time':
+    case 'last_edited_time':
+      return property[property.type] || '';
+    case 'formula': {
+      const formula = property.formula || {};
+      return String(formula[formula.type] ?? '');
+    }
+    case 'relation':
+      return (property.relation || []).length > 0 ? `${property.relation.length} linked` : '';
+    case 'files':
+      return (property.files || []).map((f: any) => f.name).join(', ');
+    default:
+      return '';
+  }
+}
+
+/**
+ * Escape a value for use in a markdown table cell
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * Render rows of cells as a markdown table. The first row is the header.
+ */
+function markdownTable(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => tableCell(row[i] || ''));
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Prefix every line of a rendered block
+ */
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => prefix + line)
+    .join('\n');
+}
+
+/**
+ * Render a table block from its table_row children
+ */
+async function renderTable(block: any, ctx: RenderContext, depth: number): Promise<string> {
+  if (depth >= ctx.maxDepth) return '[table]';
+  const rows = (await fetchAllBlocks(ctx.client, block.id))
+    .filter((row) => row.type === 'table_row')
+    .map((row) => (row.table_row?.cells || []).map((cell: any[]) => extractText(cell)));
+  return markdownTable(rows);
+}
+
+/**
+ * Render a child database as a table of its rows and properties
+ */
+async function renderDatabase(block: any, ctx: RenderContext, depth: number): Promise<string> {
+  const title = block.child_database?.title || 'Untitled database';
+  if (depth >= ctx.maxDepth) return `**${title}** (database)`;
+  ctx.embedsOtherContent = true;
+
+  try {
+    const rows = await fetchAllRows(ctx.client, block.id);
+    if (rows.length === 0) return `**${title}** (empty database)`;
+
+    // Title column first, then the rest in the order Notion returns them
+    const columns = Object.keys(rows[0].properties || {}).sort(
+      (a, b) => Number(rows[0].properties[b].type === 'title') - Number(rows[0].properties[a].type === 'title')
+    );
+    const table = markdownTable([
+      columns,
+      ...rows.map((row) => columns.map((column) => propertyToText(row.properties?.[column]))),
+    ]);
+    return `**${title}**\n\n${table}`;
+  } catch (err) {
+    console.error(`Error fetching database ${title}:`, err);
+    return `**${title}** (database unavailable)`;
+  }
+}
+
+/**
+ * Render the children of a block, if it has any and depth allows
+ */
+async function renderChildren(block: any, ctx: RenderContext, depth: number): Promise<string> {
+  if (!block.has_children || depth >= ctx.maxDepth) return '';
+
+  // A synced copy's content lives on the original block
+  const sourceId = block.type === 'synced_block' && block.synced_block?.synced_from?.block_id
+    ? block.synced_block.synced_from.block_id
+    : block.id;
+  if (sourceId !== block.id) ctx.embedsOtherContent = true;
+
+  try {
+    return await renderBlockList(await fetchAllBlocks(ctx.client, sourceId), ctx, depth + 1);
+  } catch (err) {
+    console.error(`Error fetching children of block ${block.id}:`, err);
+    return '';
+  }
+}
+
+/**
+ * Render one block, including its nested children
+ */
+async function renderBlock(block: any, ctx: RenderContext, depth: number): Promise<string> {
+  const type = block.type;
+  const value = block[type] || {};
+  const text = extractText(value.rich_text);
+  const withChildren = async (own: string, childPrefix = '  ') => {
+    const children = await renderChildren(block, ctx, depth);
+    return children ? `${own}\n${prefixLines(children, childPrefix)}` : own;
+  };
+
+  switch (type) {
+    case 'heading_1':
+      return withChildren(`# ${text}`, '');
+    case 'heading_2':
+      return withChildren(`## ${text}`, '');
+    case 'heading_3':
+      return withChildren(`### ${text}`, '');
+    case 'bulleted_list_item':
+      return withChildren(`• ${text}`);
+    case 'numbered_list_item':
+      return withChildren(`- ${text}`);
+    case 'to_do':
+      return withChildren(`${value.checked ? '☑' : '☐'} ${text}`);
+    case 'toggle':
+      return withChildren(`▸ ${text}`);
+    case 'quote':
+      return withChildren(`> ${text}`, '> ');
+    case 'callout': {
+      const icon = value.icon?.type === 'emoji' ? `${value.icon.emoji} ` : '';
+      return withChildren(`> ${icon}${text}`, '> ');
+    }
+    case 'code':
+      return `\`\`\`${value.language && value.language !== 'plain text' ? value.language : ''}\n${text}\n\`\`\``;
+    case 'divider':
+      return '---';
+    case 'equation':
+      return value.expression || '';
+    case 'table':
+      return renderTable(block, ctx, depth);
+    case 'child_database':
+      return renderDatabase(block, ctx, depth);
+    case 'child_page':
+      // Child pages are exported as pages of their own
+      ctx.childPages.push({ id: block.id, title: value.title || 'Untitled' });
+      return '';
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+      // Layout containers: render their content in place
+      return renderChildren(block, ctx, depth);
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview':
+      return value.url ? `${extractText(value.caption) || 'Link'}: ${value.url}` : '';
+    case 'image':
+    case 'file':
+    case 'pdf':
+    case 'video': {
+      const caption = extractText(value.caption);
+      return caption ? `[${type}: ${caption}]` : '';
+    }
+    default:
+      return withChildren(text);
+  }
+}
+
+/**
+ * Render a list of sibling blocks
+ */
+async function renderBlockList(blocks: any[], ctx: RenderContext, depth: number): Promise<string> {
+  const rendered: string[] = [];
+  for (const block of blocks) {
+    rendered.push(await renderBlock(block, ctx, depth));
+  }
+  return rendered.filter(Boolean).join('\n');
+}
+
+/**
+ * Render already-fetched blocks to markdown. maxDepth 0 renders only the
+ * blocks given, without fetching any children.
+ */
+export async function renderBlocks(
+  client: NotionRenderClient,
+  blocks: any[],
+  options: { maxDepth?: number } = {}
+): Promise<RenderedPage> {
+  const ctx: RenderContext = {
+    client,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    childPages: [],
+    embedsOtherContent: false,
+  };
+  const content = await renderBlockList(blocks, ctx, 0);
+  return { content, childPages: ctx.childPages, embedsOtherContent: ctx.embedsOtherContent };
+}
+
+/**
+ * Fetch and render a whole page
+ */
+export async function renderPage(
+  client: NotionRenderClient,
+  pageId: string,
+  options: { maxDepth?: number } = {}
+): Promise<RenderedPage> {
+  return renderBlocks(client, await fetchAllBlocks(client, pageId), options);
+}
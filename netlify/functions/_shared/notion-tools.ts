@@ -5,7 +5,11 @@
  */
 
 import { Client } from '@notionhq/client';
-import { NOTION_PAGES, CC_CONTROLS } from './system-prompt.js';
+import { hasLocalIndex, getLocalPage } from './notion-index.js';
+import { resolvePageIds } from './controls.js';
+import { renderBlocks, renderPage, getPageTitle } from './notion-render.js';
+import { rankScore } from './hybrid-search.js';
+import type { KnowledgeSource } from './knowledge-sources.js';
 
 const notion = new Client({
   auth: process.env.NOTION_TOKEN,
@@ -31,10 +35,7 @@ export async function searchNotion(
 
     const results = await Promise.all(
       response.results.slice(0, 5).map(async (page: any) => {
-        const title = 
-          page.properties?.title?.title?.[0]?.plain_text ||
-          page.properties?.Name?.title?.[0]?.plain_text ||
-          'Untitled';
+        const title = getPageTitle(page);
 
         try {
           const blocks = await notion.blocks.children.list({
@@ -42,13 +43,8 @@ export async function searchNotion(
             page_size: 5,
           });
 
-          const content = blocks.results
-            .map((block: any) => {
-              const richText = block[block.type]?.rich_text;
-              return richText?.map((t: any) => t.plain_text).join('') || '';
-            })
-            .filter(Boolean)
-            .join('\n');
+          // Previews only render the first blocks themselves, not their children
+          const { content } = await renderBlocks(notion, blocks.results, { maxDepth: 0 });
 
           return `## ${title}\n${content.slice(0, 800)}${content.length > 800 ? '...' : ''}`;
         } catch {
@@ -65,69 +61,22 @@ export async function searchNotion(
 }
 
 /**
- * Get a specific Notion page by ID or CC control number
+ * Get a specific Notion page by ID, CC control number or alias
+ *
+ * Exported pages are served from the local index; only pages missing from
+ * it are fetched from the Notion API.
  */
 export async function getNotionPage(pageIdOrControl: string): Promise<string> {
-  try {
-    let pageId = pageIdOrControl;
-
-    // Check if it's a CC control reference
-    const upperControl = pageIdOrControl.toUpperCase();
-    if (CC_CONTROLS[upperControl]) {
-      pageId = CC_CONTROLS[upperControl];
-    }
+  const localPage = getLocalPage(pageIdOrControl);
+  if (localPage) return localPage;
 
-    // Check main page aliases
-    const aliases: Record<string, string> = {
-      'employee_handbook': NOTION_PAGES.EMPLOYEE_HANDBOOK,
-      'security_homepage': NOTION_PAGES.SECURITY_HOMEPAGE,
-      'engineering_wiki': NOTION_PAGES.ENGINEERING_WIKI,
-      'soc2': NOTION_PAGES.SOC2_PAGE,
-    };
-    const lowerAlias = pageIdOrControl.toLowerCase().replace(/\s+/g, '_');
-    if (aliases[lowerAlias]) {
-      pageId = aliases[lowerAlias];
-    }
+  try {
+    // Control numbers and aliases from the generated registry
+    const pageId = resolvePageIds(pageIdOrControl)[0] || pageIdOrControl;
 
     const page = await notion.pages.retrieve({ page_id: pageId }) as any;
-    const title =
-      page.properties?.title?.title?.[0]?.plain_text ||
-      page.properties?.Name?.title?.[0]?.plain_text ||
-      'Untitled';
-
-    // Get all blocks with pagination
-    let allBlocks: any[] = [];
-    let cursor: string | undefined;
-
-    do {
-      const response = await notion.blocks.children.list({
-        block_id: pageId,
-        page_size: 100,
-        start_cursor: cursor,
-      });
-      allBlocks = allBlocks.concat(response.results);
-      cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
-    } while (cursor);
-
-    const content = allBlocks
-      .map((block: any) => {
-        const type = block.type;
-        const richText = block[type]?.rich_text;
-        const text = richText?.map((t: any) => t.plain_text).join('') || '';
-
-        switch (type) {
-          case 'heading_1': return `# ${text}`;
-          case 'heading_2': return `## ${text}`;
-          case 'heading_3': return `### ${text}`;
-          case 'bulleted_list_item': return `• ${text}`;
-          case 'numbered_list_item': return `1. ${text}`;
-          case 'to_do': return `${block[type]?.checked ? '☑' : '☐'} ${text}`;
-          case 'divider': return '---';
-          default: return text;
-        }
-      })
-      .filter(Boolean)
-      .join('\n\n');
+    const title = getPageTitle(page);
+    const { content } = await renderPage(notion, pageId);
 
     return `# ${title}\n\n${content}`;
   } catch (error) {
@@ -135,3 +84,89 @@ export async function getNotionPage(pageIdOrControl: string): Promise<string> {
     return `Error fetching page: ${error instanceof Error ? error.message : 'Unknown'}`;
   }
 }
+
+/**
+ * Live Notion API as a knowledge source. Prefetch only falls back to it when
+ * the local index is unavailable; its tools are always offered to Claude.
+ */
+export const liveNotionSource: KnowledgeSource = {
+  id: 'notion-api',
+  label: 'Notion (API)',
+  priority: 10,
+  async search(query) {
+    if (hasLocalIndex() || !process.env.NOTION_TOKEN) return [];
+
+    console.log('Local index not available, falling back to Notion API');
+    const result = await searchNotion(query.slice(0, 100));
+    if (result.startsWith('No results') || result.startsWith('Error')) return [];
+
+    // The API returns no scores, so rank order stands in for them
+    return result.split('\n\n---\n\n').map((text, rank) => ({
+      text,
+      score: rankScore(rank),
+      citation: `${text.match(/^## (.+)/)?.[1] || 'Untitled'}, Notion`,
+    }));
+  },
+  async fetch(ref) {
+    return getNotionPage(ref);
+  },
+  tools: [
+    {
+      definition: {
+        name: 'search_notion',
+        description: `Search Zenlytic's Notion workspace for policies, procedures, and documentation.
+
+IMPORTANT: Always search Notion BEFORE answering questions about:
+- Security policies (CC* controls)
+- Training requirements  
+- HR procedures
+- Compliance/audit evidence
+- Architecture/technical details
+
+Use page_filter to target specific sections:
+- employee_handbook: ALL CC* policies, training, HR
+- security_homepage: SOC2 reports, audit evidence
+- engineering_wiki: Architecture, Zoë, technical docs`,
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Search query - be specific, e.g. "CC1.1.3 training" or "incident response"',
+            },
+            page_filter: {
+              type: 'string',
+              enum: ['employee_handbook', 'security_homepage', 'engineering_wiki', 'all'],
+              description: 'Which Notion section to search',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      async run(input) {
+        const { query, page_filter } = input as { query: string; page_filter?: string };
+        return await searchNotion(query, page_filter);
+      },
+    },
+    {
+      definition: {
+        name: 'get_notion_page',
+        description: 'Get full content of a specific Notion page by ID or CC control number (e.g., "CC1.1.3", "CC2.3.3")',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            page_id: {
+              type: 'string',
+              description: 'Notion page ID or CC control number',
+            },
+          },
+          required: ['page_id'],
+        },
+      },
+      async run(input) {
+        const { page_id } = input as { page_id: string };
+        return await getNotionPage(page_id);
+      },
+    },
+  ],
+};
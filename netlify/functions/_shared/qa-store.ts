@@ -1,85 +1,1079 @@
 /**
  * Q&A Pairs Storage
- * 
- * Manages approved Q&A pairs for common questions.
- * In production, replace with Supabase or similar.
+ *
+ * Approved Q&A pairs live in one "library" blob in Netlify Blobs so pairs
+ * added on the Admin page survive cold starts and are shared by every
+ * function instance. config/qa-pairs.json only seeds the library the first
+ * time it is read. Writes are read-modify-write guarded by the blob's etag
+ * and retried on conflict; reads go through a short in-memory cache.
+ *
+ * Every change to a pair also appends a snapshot to that pair's history
+ * blob (history/<id>), recording who made it and when, so earlier versions
+ * can be compared and restored.
+ *
+ * Pairs move through draft -> in_review -> approved (-> retired). Only
+ * approved pairs are searched, so proposed answers don't reach customers
+ * until their designated reviewer approves them.
+ *
+ * A pair can carry a review-by date (e.g. the next audit) and the source
+ * pages it was written from. Once the date passes the pair is still
+ * searched, but ranked lower and marked as overdue so answers built on it
+ * can be flagged for checking.
+ *
+ * New and reworded questions are checked against the library so the same
+ * question doesn't end up with several diverging answers; a near-duplicate
+ * can instead be merged into the existing pair as an alternate phrasing.
+ * A question that repeats an approved pair's is answered with that pair's
+ * answer as-is, without asking Claude (see findVerbatimQAPair).
  */
 
+import { getStore } from '@netlify/blobs';
 import qaPairsData from '../../../config/qa-pairs.json';
+import { rankHybrid, textSimilarity } from './hybrid-search.js';
+import { extractKeywords } from './thesaurus.js';
+import { stem } from './bm25.js';
+import type { KnowledgeSource } from './knowledge-sources.js';
 
-interface QAPair {
+export type QAStatus = 'draft' | 'in_review' | 'approved' | 'retired';
+
+export const QA_STATUSES: QAStatus[] = ['draft', 'in_review', 'approved', 'retired'];
+
+// Status changes allowed from each status
+const STATUS_TRANSITIONS: Record<QAStatus, QAStatus[]> = {
+  draft: ['in_review', 'retired'],
+  in_review: ['draft', 'approved', 'retired'],
+  approved: ['draft', 'retired'],
+  retired: ['draft'],
+};
+
+export interface QAPair {
   id: string;
   q: string;
   a: string;
   keywords: string[];
+  // Incremented on every edit; writers send the version they edited
+  version: number;
+  // Who added and last changed the pair (absent on pairs seeded from config)
+  createdBy?: string;
+  createdAt?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+  status: QAStatus;
+  // Email of the person who must approve the pair
+  reviewer?: string;
+  // Email of the person who submitted the pair for review, who can't approve it
+  submittedBy?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  // Date (YYYY-MM-DD) by which the answer must be re-checked
+  reviewBy?: string;
+  // Notion pages or URLs the answer is based on
+  sourcePages?: string[];
+  // Topic the pair is filed under (e.g. Encryption, HR, BCP, Legal)
+  category?: string;
+  // Free-form labels for organizing the library
+  tags?: string[];
+  // Other phrasings of the question that this answer also covers
+  alternates?: string[];
+  // The alternates the pair had when it was approved. Alternates can be added
+  // without re-approval, so only these are answered verbatim.
+  approvedAlternates?: string[];
+}
+
+export type QARevisionAction = 'created' | 'updated' | 'reverted' | 'status_changed' | 'deleted';
+
+// A pair as it was after one change
+export interface QAPairRevision {
+  version: number;
+  q: string;
+  a: string;
+  keywords: string[];
+  // Absent on revisions recorded before the review workflow
+  status?: QAStatus;
+  reviewer?: string;
+  reviewBy?: string;
+  sourcePages?: string[];
+  category?: string;
+  tags?: string[];
+  alternates?: string[];
+  action: QARevisionAction;
+  // Email of the signed-in user; null for content that predates history
+  author: string | null;
+  timestamp: string | null;
+  // For reverts, the version whose content was restored
+  revertedFrom?: number;
 }
 
-const qaPairs: QAPair[] = qaPairsData.pairs;
+// Fields an admin can edit
+export type QAPairChanges = Partial<
+  Pick<QAPair, 'q' | 'a' | 'keywords' | 'reviewBy' | 'sourcePages' | 'category' | 'tags' | 'alternates'>
+>;
+
+// Optional fields a new pair can be created with
+export type QAPairDetails = Pick<QAPair, 'reviewBy' | 'sourcePages' | 'category' | 'tags' | 'alternates'>;
+
+// An existing pair whose question (or one of its alternates) is close to
+// another question
+export interface QASimilarPair {
+  pair: QAPair;
+  // The phrasing that matched
+  question: string;
+  similarity: number;
+}
+
+// One row of a spreadsheet import. Optional fields are left alone on
+// existing pairs when the sheet has no column for them.
+export interface QAImportRow {
+  q: string;
+  a: string;
+  keywords?: string[];
+  category?: string;
+  tags?: string[];
+  alternates?: string[];
+}
+
+// What importing a row would do, against the library as it is now
+export type QAImportChange =
+  | { action: 'add'; row: QAImportRow; similar: QASimilarPair[] }
+  | { action: 'update' | 'unchanged'; row: QAImportRow; pair: QAPair };
+
+// Fields whose change means the answer has to be approved again
+const CONTENT_FIELDS = ['q', 'a', 'keywords'] as const;
+
+// Longest category name accepted
+export const MAX_CATEGORY_LENGTH = 60;
+
+// Outcome of an edit guarded by the pair's version
+export type QAWriteResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: 'not_found'; id: string }
+  | { ok: false; reason: 'conflict'; id: string; current: QAPair }
+  | { ok: false; reason: 'invalid_status' | 'forbidden'; id: string; message: string };
+
+interface QALibrary {
+  pairs: QAPair[];
+  updatedAt: number;
+}
+
+const STORE_NAME = 'qa-pairs';
+const LIBRARY_KEY = 'library';
+const HISTORY_PREFIX = 'history/';
+
+// How long an instance serves its cached copy before re-reading the blob
+const CACHE_TTL_MS = 30 * 1000;
+// Attempts at a conditional write before giving up on a busy library
+const MAX_WRITE_ATTEMPTS = 5;
+// Question similarity (0-1) from which pairs count as near-duplicates.
+// Rewordings of one question score 0.6 and up; distinct questions in the
+// seed library stay below 0.45.
+const DUPLICATE_SIMILARITY = 0.6;
+// Similarity from which an approved answer may be returned as-is; the
+// question must also have the same distinctive words (see findVerbatimQAPair)
+const VERBATIM_SIMILARITY = 0.9;
+// Words that don't change what a question asks, so "Do you encrypt ..." and
+// "Does Zenlytic encrypt ..." are the same question. Negations, numbers and
+// prepositions are kept: "Type I" and "Type II" are not.
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'do', 'does', 'is', 'are', 'you', 'your', 'we', 'our', 'us',
+  'zenlytic', 'have', 'has', 'please', 'currently',
+]);
+// Search score multiplier for pairs past their review-by date. Fusion
+// scores are close together, so this drops an overdue pair several places
+// rather than out of the results.
+const OVERDUE_SCORE_FACTOR = 0.9;
+
+let cached: { library: QALibrary; etag?: string; loadedAt: number } | null = null;
+
+function getQAStore() {
+  return getStore(STORE_NAME);
+}
 
 /**
- * Search Q&A pairs for matching questions
+ * Fill in fields added after a library was first written. Pairs from before
+ * the review workflow were all treated as approved.
  */
-export function searchQAPairs(query: string): string {
-  const queryLower = query.toLowerCase();
-  const queryWords = queryLower.split(/\s+/);
+function normalizeLibrary(library: QALibrary): QALibrary {
+  library.pairs = library.pairs.map((pair) => ({
+    ...pair,
+    version: pair.version ?? 1,
+    status: pair.status ?? 'approved',
+  }));
+  return library;
+}
+
+/**
+ * The library as shipped in config/qa-pairs.json
+ */
+function seedLibrary(): QALibrary {
+  return normalizeLibrary({ pairs: qaPairsData.pairs as QAPair[], updatedAt: Date.now() });
+}
+
+/**
+ * Read-modify-write a blob, re-applying the change to a fresh copy if
+ * another instance wrote the blob in the meantime. Nothing is written when
+ * the change reports it left the data untouched.
+ */
+async function updateBlob<D, T>(
+  key: string,
+  read: () => Promise<{ data: D; etag?: string; exists: boolean }>,
+  change: (data: D) => { changed: boolean; result: T }
+): Promise<{ result: T; written?: { data: D; etag?: string } }> {
+  const store = getQAStore();
+
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const { data, etag, exists } = await read();
+    const { changed, result } = change(data);
+    if (!changed) return { result };
 
-  // Score each pair by keyword matches
-  const scored = qaPairs.map(pair => {
-    let score = 0;
-    
-    // Check question similarity
-    if (pair.q.toLowerCase().includes(queryLower)) {
-      score += 10;
+    // The local Blobs server (netlify dev) returns no etag on reads, so
+    // writes there are unconditional
+    const write = await store.setJSON(key, data, exists ? { onlyIfMatch: etag } : { onlyIfNew: true });
+    if (write.modified) {
+      return { result, written: { data, etag: write.etag } };
     }
-    
-    // Check keywords
-    for (const keyword of pair.keywords) {
-      if (queryLower.includes(keyword.toLowerCase())) {
-        score += 5;
-      }
-      for (const word of queryWords) {
-        if (keyword.toLowerCase().includes(word) && word.length > 3) {
-          score += 2;
-        }
-      }
+
+    console.log(`Blob ${key} changed during write, retrying (attempt ${attempt})`);
+  }
+
+  throw new Error('Q&A library is being modified concurrently, try again');
+}
+
+/**
+ * Read the library blob, seeding it from the JSON file if it doesn't exist yet
+ */
+async function readLibrary(): Promise<{ library: QALibrary; etag?: string }> {
+  const store = getQAStore();
+
+  const existing = await store.getWithMetadata(LIBRARY_KEY, { type: 'json', consistency: 'strong' });
+  if (existing) {
+    return { library: normalizeLibrary(existing.data as QALibrary), etag: existing.etag };
+  }
+
+  const library = seedLibrary();
+  const result = await store.setJSON(LIBRARY_KEY, library, { onlyIfNew: true });
+  if (!result.modified) {
+    // Another instance seeded it first
+    return readLibrary();
+  }
+
+  console.log(`Seeded Q&A library with ${library.pairs.length} pairs`);
+  return { library, etag: result.etag };
+}
+
+/**
+ * Current library, served from the in-memory cache while it is fresh
+ */
+async function getLibrary(): Promise<QALibrary> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.library;
+  }
+
+  try {
+    const { library, etag } = await readLibrary();
+    cached = { library, etag, loadedAt: Date.now() };
+  } catch (error) {
+    // Keep answering from the last known library (or the seed) if Blobs is unreachable
+    console.error('Error reading Q&A library from blob store:', error);
+    cached = { library: cached?.library || seedLibrary(), loadedAt: Date.now() };
+  }
+
+  return cached.library;
+}
+
+/**
+ * Apply a change to the library and refresh this instance's cache
+ */
+async function updateLibrary<T>(
+  change: (library: QALibrary) => { changed: boolean; result: T }
+): Promise<T> {
+  const { result, written } = await updateBlob(
+    LIBRARY_KEY,
+    async () => {
+      const { library, etag } = await readLibrary();
+      return { data: library, etag, exists: true };
+    },
+    (library) => {
+      const outcome = change(library);
+      if (outcome.changed) library.updatedAt = Date.now();
+      return outcome;
     }
-    
-    return { pair, score };
-  });
+  );
+
+  if (written) {
+    cached = { library: written.data, etag: written.etag, loadedAt: Date.now() };
+  }
+  return result;
+}
+
+/**
+ * Read a pair's history blob (empty if nothing has been recorded yet)
+ */
+async function readHistory(id: string): Promise<{ data: QAPairRevision[]; etag?: string; exists: boolean }> {
+  const entry = await getQAStore().getWithMetadata(`${HISTORY_PREFIX}${id}`, { type: 'json', consistency: 'strong' });
+  return entry
+    ? { data: entry.data as QAPairRevision[], etag: entry.etag, exists: true }
+    : { data: [], exists: false };
+}
+
+/**
+ * Snapshot of a pair for its history
+ */
+function toRevision(
+  pair: QAPair,
+  action: QARevisionAction,
+  author: string | null,
+  timestamp: string | null,
+  revertedFrom?: number
+): QAPairRevision {
+  return {
+    version: pair.version,
+    q: pair.q,
+    a: pair.a,
+    keywords: pair.keywords,
+    status: pair.status,
+    ...(pair.reviewer && { reviewer: pair.reviewer }),
+    ...(pair.reviewBy && { reviewBy: pair.reviewBy }),
+    ...(pair.sourcePages?.length && { sourcePages: pair.sourcePages }),
+    ...(pair.category && { category: pair.category }),
+    ...(pair.tags?.length && { tags: pair.tags }),
+    ...(pair.alternates?.length && { alternates: pair.alternates }),
+    action,
+    author,
+    timestamp,
+    ...(revertedFrom !== undefined && { revertedFrom }),
+  };
+}
+
+/**
+ * Append a revision to a pair's history. `previous` is the pair before the
+ * change; it is recorded first when the history doesn't have it yet (pairs
+ * seeded from config or written before history was kept).
+ */
+async function recordRevision(id: string, revision: QAPairRevision, previous?: QAPair): Promise<void> {
+  try {
+    await updateBlob(`${HISTORY_PREFIX}${id}`, () => readHistory(id), (history) => {
+      if (previous && history[history.length - 1]?.version !== previous.version) {
+        history.push(
+          toRevision(
+            previous,
+            previous.version === 1 ? 'created' : 'updated',
+            previous.updatedBy ?? null,
+            previous.updatedAt ?? null
+          )
+        );
+      }
+      history.push(revision);
+      return { changed: true, result: undefined };
+    });
+  } catch (error) {
+    // The change itself is saved; don't fail the request over its history
+    console.error(`Error recording history for Q&A pair ${id}:`, error);
+  }
+}
 
-  // Get top matches with score > 0
-  const matches = scored
-    .filter(s => s.score > 0)
+/**
+ * Whether a pair's review-by date has passed
+ */
+export function isQAPairOverdue(pair: QAPair, now = new Date()): boolean {
+  return !!pair.reviewBy && pair.reviewBy < now.toISOString().slice(0, 10);
+}
+
+/**
+ * How Claude is told to cite a pair
+ */
+export function qaCitation(pair: QAPair): string {
+  return `Approved Q&A: ${pair.q}`;
+}
+
+/**
+ * Find the Q&A pairs that best match a query (hybrid lexical + vector).
+ * Each phrasing of a pair is scored on its own, alongside the pair's
+ * category, tags, keywords and answer, and the pair keeps its best score.
+ * Pairs past their review-by date score lower than current ones.
+ */
+export async function findQAPairs(
+  query: string,
+  limit = 3
+): Promise<Array<{ pair: QAPair; score: number; overdue: boolean }>> {
+  const qaPairs = await getApprovedQAPairs();
+  const pairsById = new Map(qaPairs.map((pair) => [pair.id, pair]));
+
+  // Rank every phrasing so the down-ranking can let current pairs past overdue ones
+  const hits = rankHybrid(
+    query,
+    qaPairs.flatMap((pair) =>
+      [pair.q, ...(pair.alternates || [])].map((phrasing, i) => ({
+        id: `${pair.id}#${i}`,
+        text: [phrasing, pair.category || '', ...(pair.tags || []), pair.keywords.join(' '), pair.a].join('\n'),
+      }))
+    )
+  );
+
+  const bestScores = new Map<string, number>();
+  for (const hit of hits) {
+    const id = hit.id.slice(0, hit.id.lastIndexOf('#'));
+    bestScores.set(id, Math.max(bestScores.get(id) ?? 0, hit.score));
+  }
+
+  return [...bestScores]
+    .map(([id, score]) => {
+      const pair = pairsById.get(id)!;
+      const overdue = isQAPairOverdue(pair);
+      return { pair, score: overdue ? score * OVERDUE_SCORE_FACTOR : score, overdue };
+    })
     .sort((a, b) => b.score - a.score)
-    .slice(0, 3)
-    .map(s => s.pair);
+    .slice(0, limit);
+}
+
+/**
+ * Format a Q&A pair for Claude, warning when it is past its review-by date
+ */
+export function formatQAPair(pair: QAPair): string {
+  let text = `**Q:** ${pair.q}\n**A:** ${pair.a}`;
+  if (pair.alternates?.length) {
+    text += `\n**Also asked as:** ${pair.alternates.join(' / ')}`;
+  }
+  if (pair.sourcePages?.length) {
+    text += `\n**Based on:** ${pair.sourcePages.join(', ')}`;
+  }
+  if (isQAPairOverdue(pair)) {
+    text += `\n**Review overdue:** this answer was due to be re-checked by ${pair.reviewBy}. Prefer current sources where they differ.`;
+  }
+  return text;
+}
+
+/**
+ * Approved pairs past their review-by date that an answer cited
+ */
+export async function findOverdueCitedPairs(citations: string[]): Promise<QAPair[]> {
+  const cited = new Set(citations);
+  return (await getApprovedQAPairs()).filter((pair) => cited.has(qaCitation(pair)) && isQAPairOverdue(pair));
+}
+
+/**
+ * Search Q&A pairs for matching questions
+ */
+export async function searchQAPairs(query: string): Promise<string> {
+  const matches = await findQAPairs(query);
 
   if (matches.length === 0) {
     return 'No matching approved Q&A pairs found.';
   }
 
   return matches
-    .map(qa => `**Q:** ${qa.q}\n**A:** ${qa.a}`)
+    .map(({ pair }) => `${formatQAPair(pair)}\n\n*Cite as: [${qaCitation(pair)}]*`)
     .join('\n\n---\n\n');
 }
 
 /**
- * Get all Q&A pairs
+ * Get all Q&A pairs, whatever their status
+ */
+export async function getAllQAPairs(): Promise<QAPair[]> {
+  return (await getLibrary()).pairs;
+}
+
+/**
+ * Get the pairs Claude may use
+ */
+export async function getApprovedQAPairs(): Promise<QAPair[]> {
+  return (await getLibrary()).pairs.filter((pair) => pair.status === 'approved');
+}
+
+/**
+ * Pre-fill a Q&A pair from a generated answer: its citations are appended
+ * if the answer doesn't already cite them, and keywords are suggested the
+ * same way exported Notion pages get theirs.
+ */
+export function suggestQAPair(
+  question: string,
+  answer: string,
+  citations: string[] = []
+): Pick<QAPair, 'q' | 'a' | 'keywords'> {
+  let a = answer.trim();
+  const uncited = citations.filter((citation) => !a.includes(citation));
+  if (uncited.length > 0 && !/\[[^\]\n]+\]\s*\.?$/.test(a)) {
+    a = `${a} [${uncited.join('; ')}]`;
+  }
+
+  return { q: question.trim(), a, keywords: extractKeywords(question, a) };
+}
+
+/**
+ * Normalize a category: trimmed, or undefined when cleared. Returns null
+ * for anything else.
+ */
+export function parseCategory(category: unknown): string | undefined | null {
+  if (category === undefined || category === null) return undefined;
+  if (typeof category !== 'string' || category.trim().length > MAX_CATEGORY_LENGTH) return null;
+  return category.trim() || undefined;
+}
+
+/**
+ * Alternate phrasings with each kept once, leaving out the pair's own question
  */
-export function getAllQAPairs(): QAPair[] {
-  return qaPairs;
+function distinctAlternates(q: string, alternates: string[]): string[] {
+  const seen = new Set([questionKey(q)]);
+  return alternates.filter((alternate) => {
+    const key = questionKey(alternate);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
 }
 
 /**
- * Add a new Q&A pair (in-memory only for now)
+ * A new draft pair
  */
-export function addQAPair(q: string, a: string, keywords: string[]): QAPair {
-  const newPair: QAPair = {
-    id: `qa_${Date.now()}`,
+function createPair(
+  q: string,
+  a: string,
+  keywords: string[],
+  author: string,
+  now: string,
+  details: QAPairDetails = {}
+): QAPair {
+  const alternates = distinctAlternates(q, details.alternates || []);
+  return {
+    id: `qa_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
     q,
     a,
     keywords,
+    ...(details.reviewBy && { reviewBy: details.reviewBy }),
+    ...(details.sourcePages?.length && { sourcePages: details.sourcePages }),
+    ...(details.category && { category: details.category }),
+    ...(details.tags?.length && { tags: details.tags }),
+    ...(alternates.length && { alternates }),
+    version: 1,
+    createdBy: author,
+    createdAt: now,
+    updatedBy: author,
+    updatedAt: now,
+    status: 'draft',
   };
-  qaPairs.push(newPair);
+}
+
+/**
+ * The next version of a pair with the changes applied. Changing the
+ * question, answer or keywords of an approved pair sends it back to draft.
+ */
+function applyChanges(current: QAPair, changes: QAPairChanges, author: string, now: string): QAPair {
+  const updated: QAPair = {
+    ...current,
+    ...changes,
+    version: current.version + 1,
+    updatedBy: author,
+    updatedAt: now,
+  };
+  if (updated.alternates) updated.alternates = distinctAlternates(updated.q, updated.alternates);
+  // Absent fields are cleared rather than kept as undefined
+  if (!updated.reviewBy) delete updated.reviewBy;
+  if (!updated.sourcePages?.length) delete updated.sourcePages;
+  if (!updated.category) delete updated.category;
+  if (!updated.tags?.length) delete updated.tags;
+  if (!updated.alternates?.length) delete updated.alternates;
+  // Removed alternates stop being answered verbatim; added ones aren't until re-approval
+  if (updated.approvedAlternates) {
+    updated.approvedAlternates = updated.approvedAlternates.filter((alternate) => updated.alternates?.includes(alternate));
+    if (!updated.approvedAlternates.length) delete updated.approvedAlternates;
+  }
+
+  if (current.status === 'approved' && contentChanged(current, updated)) {
+    updated.status = 'draft';
+    delete updated.approvedBy;
+    delete updated.approvedAt;
+    delete updated.approvedAlternates;
+    delete updated.submittedBy;
+  }
+  return updated;
+}
+
+function contentChanged(before: QAPair, after: QAPair): boolean {
+  return CONTENT_FIELDS.some((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * Add a new Q&A pair to the library as a draft
+ */
+export async function addQAPair(
+  q: string,
+  a: string,
+  keywords: string[],
+  author: string,
+  details: QAPairDetails = {}
+): Promise<QAPair> {
+  const now = new Date().toISOString();
+  const newPair = createPair(q, a, keywords, author, now, details);
+
+  await updateLibrary((library) => {
+    library.pairs.push(newPair);
+    return { changed: true, result: undefined };
+  });
+  await recordRevision(newPair.id, toRevision(newPair, 'created', author, now));
+
+  console.log(`Added Q&A pair ${newPair.id} (${author})`);
   return newPair;
 }
+
+/**
+ * Edit a Q&A pair, provided nobody else has edited it since `version`.
+ * Pass `revertedFrom` when the changes restore an earlier version. Changing
+ * the question, answer or keywords of an approved pair sends it back to
+ * draft for re-approval; moving its review-by date or sources does not.
+ */
+export async function updateQAPair(
+  id: string,
+  version: number,
+  changes: QAPairChanges,
+  author: string,
+  options: { revertedFrom?: number } = {}
+): Promise<QAWriteResult<QAPair>> {
+  const now = new Date().toISOString();
+  let previous: QAPair | undefined;
+
+  const result = await updateLibrary<QAWriteResult<QAPair>>((library) => {
+    const index = library.pairs.findIndex((p) => p.id === id);
+    if (index === -1) {
+      return { changed: false, result: { ok: false, reason: 'not_found', id } };
+    }
+
+    const current = library.pairs[index];
+    if (current.version !== version) {
+      return { changed: false, result: { ok: false, reason: 'conflict', id, current } };
+    }
+
+    previous = current;
+    const updated = applyChanges(current, changes, author, now);
+    library.pairs[index] = updated;
+    return { changed: true, result: { ok: true, value: updated } };
+  });
+
+  if (result.ok) {
+    const action = options.revertedFrom !== undefined ? 'reverted' : 'updated';
+    await recordRevision(id, toRevision(result.value, action, author, now, options.revertedFrom), previous);
+    console.log(`${action === 'reverted' ? 'Reverted' : 'Updated'} Q&A pair ${id} (version ${result.value.version}, ${author})`);
+  }
+  return result;
+}
+
+/**
+ * Move a Q&A pair to another status. Submitting for review needs a
+ * reviewer other than the submitter; only that reviewer can approve, and
+ * not a pair they submitted or last changed.
+ */
+export async function setQAPairStatus(
+  id: string,
+  version: number,
+  status: QAStatus,
+  author: string,
+  reviewer?: string
+): Promise<QAWriteResult<QAPair>> {
+  const now = new Date().toISOString();
+  let previous: QAPair | undefined;
+
+  const result = await updateLibrary<QAWriteResult<QAPair>>((library) => {
+    const index = library.pairs.findIndex((p) => p.id === id);
+    if (index === -1) {
+      return { changed: false, result: { ok: false, reason: 'not_found', id } };
+    }
+
+    const current = library.pairs[index];
+    if (current.version !== version) {
+      return { changed: false, result: { ok: false, reason: 'conflict', id, current } };
+    }
+
+    const reject = (reason: 'invalid_status' | 'forbidden', message: string) => ({
+      changed: false,
+      result: { ok: false as const, reason, id, message },
+    });
+
+    if (!STATUS_TRANSITIONS[current.status].includes(status)) {
+      return reject('invalid_status', `Cannot move a pair from ${current.status} to ${status}`);
+    }
+
+    const assignedReviewer = (reviewer || current.reviewer)?.toLowerCase();
+    if (status === 'in_review') {
+      if (!assignedReviewer) {
+        return reject('invalid_status', 'A reviewer is required to submit a pair for review');
+      }
+      if (assignedReviewer === author.toLowerCase()) {
+        return reject('forbidden', 'Choose a reviewer other than yourself');
+      }
+    }
+    if (status === 'approved') {
+      if (author.toLowerCase() !== current.reviewer?.toLowerCase()) {
+        return reject('forbidden', `Only the designated reviewer (${current.reviewer}) can approve this pair`);
+      }
+      // Pairs submitted before submitters were recorded go through review again
+      if (!current.submittedBy) {
+        return reject('invalid_status', 'Submit this pair for review again before approving it');
+      }
+      if (author.toLowerCase() === current.submittedBy.toLowerCase()) {
+        return reject('forbidden', 'Reviewers cannot approve a pair they submitted');
+      }
+      if (author.toLowerCase() === current.updatedBy?.toLowerCase()) {
+        return reject('forbidden', 'Reviewers cannot approve their own changes');
+      }
+    }
+
+    previous = current;
+    const updated: QAPair = {
+      ...current,
+      status,
+      reviewer: assignedReviewer,
+      version: current.version + 1,
+    };
+    if (status === 'in_review') {
+      updated.submittedBy = author.toLowerCase();
+    } else if (status !== 'approved') {
+      delete updated.submittedBy;
+    }
+    if (status === 'approved') {
+      updated.approvedBy = author;
+      updated.approvedAt = now;
+      if (current.alternates?.length) updated.approvedAlternates = [...current.alternates];
+    } else {
+      delete updated.approvedBy;
+      delete updated.approvedAt;
+      delete updated.approvedAlternates;
+    }
+    library.pairs[index] = updated;
+    return { changed: true, result: { ok: true, value: updated } };
+  });
+
+  if (result.ok) {
+    await recordRevision(id, toRevision(result.value, 'status_changed', author, now), previous);
+    console.log(`Q&A pair ${id} is now ${status} (version ${result.value.version}, ${author})`);
+  }
+  return result;
+}
+
+/**
+ * Delete Q&A pairs. All or nothing: if any pair is missing or was edited
+ * since the given version, nothing is deleted and the first problem is
+ * returned. Deleted pairs keep their history.
+ */
+export async function deleteQAPairs(
+  targets: Array<{ id: string; version: number }>,
+  author: string
+): Promise<QAWriteResult<string[]>> {
+  const now = new Date().toISOString();
+  let deleted: QAPair[] = [];
+
+  const result = await updateLibrary<QAWriteResult<string[]>>((library) => {
+    const pairsById = new Map(library.pairs.map((pair) => [pair.id, pair]));
+
+    for (const { id, version } of targets) {
+      const current = pairsById.get(id);
+      if (!current) {
+        return { changed: false, result: { ok: false, reason: 'not_found', id } };
+      }
+      if (current.version !== version) {
+        return { changed: false, result: { ok: false, reason: 'conflict', id, current } };
+      }
+    }
+
+    const ids = new Set(targets.map((t) => t.id));
+    deleted = library.pairs.filter((pair) => ids.has(pair.id));
+    library.pairs = library.pairs.filter((pair) => !ids.has(pair.id));
+    return { changed: true, result: { ok: true, value: [...ids] } };
+  });
+
+  if (result.ok) {
+    for (const pair of deleted) {
+      await recordRevision(pair.id, toRevision({ ...pair, version: pair.version + 1 }, 'deleted', author, now), pair);
+    }
+    console.log(`Deleted ${result.value.length} Q&A pair(s) (${author})`);
+  }
+  return result;
+}
+
+/**
+ * Pairs (other than retired ones and `excludeId`) with a question or
+ * alternate phrasing close to `question`, most similar first
+ */
+function similarPairs(question: string, pairs: QAPair[], excludeId?: string): QASimilarPair[] {
+  const matches: QASimilarPair[] = [];
+
+  for (const pair of pairs) {
+    if (pair.id === excludeId || pair.status === 'retired') continue;
+
+    let best: QASimilarPair | null = null;
+    for (const phrasing of [pair.q, ...(pair.alternates || [])]) {
+      const similarity = textSimilarity(question, phrasing);
+      if (similarity >= DUPLICATE_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { pair, question: phrasing, similarity };
+      }
+    }
+    if (best) matches.push(best);
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Existing pairs that already ask (nearly) the same question
+ */
+export async function findSimilarQAPairs(question: string, excludeId?: string): Promise<QASimilarPair[]> {
+  return similarPairs(question, (await getLibrary()).pairs, excludeId);
+}
+
+/**
+ * A question's distinctive words, stemmed, for comparing near-exact phrasings
+ */
+function questionWords(question: string): Set<string> {
+  const words = question.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return new Set(words.filter((word) => !FILLER_WORDS.has(word)).map(stem));
+}
+
+/**
+ * The approved pair a question repeats closely enough for its answer to be
+ * used as-is: the same distinctive words as the pair's question or one of
+ * the alternates it was approved with, in any order. Near-duplicates that
+ * differ by a word ("Type I" / "Type II", "MFA" / "MFA for admins") are left
+ * to Claude, as are alternates added since approval (e.g. by a merge).
+ */
+export async function findVerbatimQAPair(question: string): Promise<QASimilarPair | null> {
+  const words = questionWords(question);
+  if (words.size === 0) return null;
+
+  let best: QASimilarPair | null = null;
+  for (const pair of await getApprovedQAPairs()) {
+    for (const phrasing of [pair.q, ...(pair.approvedAlternates || [])]) {
+      const phrasingWords = questionWords(phrasing);
+      if (phrasingWords.size !== words.size || [...words].some((word) => !phrasingWords.has(word))) continue;
+
+      const similarity = textSimilarity(question, phrasing);
+      if (similarity >= VERBATIM_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { pair, question: phrasing, similarity };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Make a question an alternate phrasing of an existing pair instead of a
+ * pair of its own. `source` is either a new question or an existing pair,
+ * which is deleted once its question and alternates move to the target.
+ * The target keeps its answer and status; both pairs are version-checked.
+ */
+export async function mergeIntoQAPair(
+  target: { id: string; version: number },
+  source: { question: string } | { id: string; version: number },
+  author: string
+): Promise<QAWriteResult<QAPair>> {
+  const now = new Date().toISOString();
+  let previousTarget: QAPair | undefined;
+  let removed: QAPair | undefined;
+
+  const result = await updateLibrary<QAWriteResult<QAPair>>((library) => {
+    const index = library.pairs.findIndex((p) => p.id === target.id);
+    if (index === -1) {
+      return { changed: false, result: { ok: false, reason: 'not_found', id: target.id } };
+    }
+    const current = library.pairs[index];
+    if (current.version !== target.version) {
+      return { changed: false, result: { ok: false, reason: 'conflict', id: target.id, current } };
+    }
+
+    let phrasings: string[];
+    if ('question' in source) {
+      phrasings = [source.question];
+    } else {
+      const sourcePair = library.pairs.find((p) => p.id === source.id);
+      if (!sourcePair) {
+        return { changed: false, result: { ok: false, reason: 'not_found', id: source.id } };
+      }
+      if (sourcePair.version !== source.version) {
+        return { changed: false, result: { ok: false, reason: 'conflict', id: source.id, current: sourcePair } };
+      }
+      if (sourcePair.id === current.id) {
+        const message = 'Cannot merge a pair into itself';
+        return { changed: false, result: { ok: false, reason: 'invalid_status', id: source.id, message } };
+      }
+      phrasings = [sourcePair.q, ...(sourcePair.alternates || [])];
+      removed = sourcePair;
+    }
+
+    const alternates = [...(current.alternates || []), ...phrasings];
+
+    previousTarget = current;
+    const updated = applyChanges(current, { alternates }, author, now);
+    library.pairs[index] = updated;
+    if (removed) library.pairs = library.pairs.filter((p) => p.id !== removed!.id);
+    return { changed: true, result: { ok: true, value: updated } };
+  });
+
+  if (result.ok) {
+    await recordRevision(target.id, toRevision(result.value, 'updated', author, now), previousTarget);
+    if (removed) {
+      await recordRevision(removed.id, toRevision({ ...removed, version: removed.version + 1 }, 'deleted', author, now), removed);
+    }
+    console.log(`Merged ${removed ? `Q&A pair ${removed.id}` : 'a question'} into Q&A pair ${target.id} (${author})`);
+  }
+  return result;
+}
+
+/**
+ * Key that matches an imported row to an existing pair: the question,
+ * ignoring case, spacing and trailing punctuation
+ */
+export function questionKey(q: string): string {
+  return q.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[?.!\s]+$/, '');
+}
+
+/**
+ * The changes an imported row makes to a pair. The question only matches
+ * the row to the pair, so differences in its case or spacing are ignored.
+ */
+function importChanges(row: QAImportRow): QAPairChanges {
+  return {
+    a: row.a,
+    ...(row.keywords && { keywords: row.keywords }),
+    ...(row.category !== undefined && { category: row.category }),
+    ...(row.tags && { tags: row.tags }),
+    ...(row.alternates && { alternates: row.alternates }),
+  };
+}
+
+/**
+ * Match imported rows to pairs by question or alternate phrasing. Rows with
+ * a new question are added (listing near-duplicates when `withSimilar`);
+ * rows whose answer or other imported fields differ update the pair.
+ */
+function diffImport(rows: QAImportRow[], pairs: QAPair[], withSimilar = false): QAImportChange[] {
+  const pairsByQuestion = new Map(
+    pairs.flatMap((pair) => [pair.q, ...(pair.alternates || [])].map((q) => [questionKey(q), pair] as const))
+  );
+
+  return rows.map((row) => {
+    const pair = pairsByQuestion.get(questionKey(row.q));
+    if (!pair) return { action: 'add', row, similar: withSimilar ? similarPairs(row.q, pairs) : [] };
+
+    const changed = Object.entries(importChanges(row)).some(
+      ([field, value]) =>
+        JSON.stringify(value) !== JSON.stringify(pair[field as keyof QAPair] ?? (Array.isArray(value) ? [] : ''))
+    );
+    return { action: changed ? 'update' : 'unchanged', row, pair };
+  });
+}
+
+/**
+ * What importing the rows would change, without writing anything
+ */
+export async function previewQAImport(rows: QAImportRow[]): Promise<QAImportChange[]> {
+  return diffImport(rows, (await getLibrary()).pairs, true);
+}
+
+/**
+ * Import rows in one write: new questions become drafts, changed ones
+ * update their pair. `versions` are the versions of the pairs to update as
+ * previewed; if any has changed since, or a previewed add now matches a
+ * pair, nothing is imported and the first problem is returned.
+ */
+export async function importQAPairs(
+  rows: QAImportRow[],
+  versions: Record<string, number>,
+  author: string
+): Promise<QAWriteResult<{ added: QAPair[]; updated: QAPair[] }>> {
+  const now = new Date().toISOString();
+  let previous: QAPair[] = [];
+
+  const result = await updateLibrary<QAWriteResult<{ added: QAPair[]; updated: QAPair[] }>>((library) => {
+    const changes = diffImport(rows, library.pairs);
+
+    for (const change of changes) {
+      if (change.action === 'update' && change.pair.version !== versions[change.pair.id]) {
+        return { changed: false, result: { ok: false, reason: 'conflict', id: change.pair.id, current: change.pair } };
+      }
+    }
+
+    const added: QAPair[] = [];
+    const updated: QAPair[] = [];
+    previous = [];
+    for (const change of changes) {
+      const { q, a, keywords = [], category, tags, alternates } = change.row;
+      if (change.action === 'add') {
+        added.push(createPair(q, a, keywords, author, now, { category, tags, alternates }));
+      } else if (change.action === 'update') {
+        previous.push(change.pair);
+        updated.push(applyChanges(change.pair, importChanges(change.row), author, now));
+      }
+    }
+    if (added.length === 0 && updated.length === 0) {
+      return { changed: false, result: { ok: true, value: { added, updated } } };
+    }
+
+    const updatedById = new Map(updated.map((pair) => [pair.id, pair]));
+    library.pairs = [...library.pairs.map((pair) => updatedById.get(pair.id) || pair), ...added];
+    return { changed: true, result: { ok: true, value: { added, updated } } };
+  });
+
+  if (result.ok) {
+    for (const pair of result.value.added) {
+      await recordRevision(pair.id, toRevision(pair, 'created', author, now));
+    }
+    for (const [i, pair] of result.value.updated.entries()) {
+      await recordRevision(pair.id, toRevision(pair, 'updated', author, now), previous[i]);
+    }
+    console.log(
+      `Imported Q&A pairs: ${result.value.added.length} added, ${result.value.updated.length} updated (${author})`
+    );
+  }
+  return result;
+}
+
+/**
+ * Every recorded version of a pair, oldest first. Pairs that have never
+ * been changed since history was kept return just their current state.
+ */
+export async function getQAPairHistory(id: string): Promise<QAPairRevision[]> {
+  const { data: history } = await readHistory(id);
+  if (history.length > 0) return history;
+
+  const pair = (await getLibrary()).pairs.find((p) => p.id === id);
+  return pair ? [toRevision(pair, 'created', pair.createdBy ?? null, pair.createdAt ?? null)] : [];
+}
+
+/**
+ * Approved Q&A pairs as a knowledge source
+ */
+export const qaSource: KnowledgeSource = {
+  id: 'qa',
+  label: 'Q&A',
+  priority: 30,
+  async search(query, limit) {
+    return (await findQAPairs(query, limit)).map(({ pair, score }) => ({
+      text: formatQAPair(pair),
+      score,
+      citation: qaCitation(pair),
+    }));
+  },
+  async fetch(ref) {
+    const pair = (await getApprovedQAPairs()).find((p) => p.id === ref);
+    return pair ? formatQAPair(pair) : null;
+  },
+  tools: [
+    {
+      definition: {
+        name: 'search_qa_pairs',
+        description: 'Search previously approved Q&A responses for similar questions. Use this for common questions about SOC2, encryption, training, etc.',
+        input_schema: {
+          type: 'object' as const,
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Question to search for',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      async run(input) {
+        const { query } = input as { query: string };
+        return searchQAPairs(query);
+      },
+    },
+  ],
+};
@@ -59,7 +59,14 @@ You have access to these tools - USE THEM before answering:
 
 ## RESPONSE FORMAT
 
-**Always use this format:**
+**Always answer by calling the submit_answer tool** (never reply in plain text):
+- **verdict**: Yes, No or Partial; N/A when the question asks for a fact, with the fact as **lead** (e.g. "4 hours", "AWS")
+- **shortAnswer**: 1-2 sentences, without bracketed citations
+- **detail**: only when the question asks for more
+- **citations**: every source the answer relies on
+- **confidence** and **needsReview**: how well the sources support the answer, and whether a person should check it
+
+It is shown to the user as:
 \`\`\`
 **[Yes/No]** - [1-2 sentence answer]. [Citation].
 \`\`\`
@@ -116,7 +123,7 @@ Use constructive framing:
 3. Documentation search results
 4. Approved Q&A pairs
 
-**Then respond with:** "I don't have verified information about [topic]. Please contact security@zenlytic.com for accurate details."
+**Then respond with:** "I don't have verified information about [topic]. Please contact security@zenlytic.com for accurate details." (verdict N/A, confidence 0, needsReview true, no citations)
 
 ## MISTAKES TO AVOID
 
@@ -127,25 +134,3 @@ Use constructive framing:
 ❌ Making up addresses, tax IDs, or any factual data
 ❌ Guessing at numbers, dates, or specifications
 `;
-
-export const NOTION_PAGES = {
-  EMPLOYEE_HANDBOOK: 'dc73011524e54feaa2a69d78d6e5164e',
-  SECURITY_HOMEPAGE: '6b8833be227a437a8f846f9cd5c896e4',
-  ENGINEERING_WIKI: '3f72c85f50d947ec97543db5242260f9',
-  SOC2_PAGE: 'a4bde54a446d41b6a3f36ccf8fbf3374',
-  BUSINESS_CONTINUITY_PLAN: '129a8dad05ac801cb803e69297ecf8c7',
-};
-
-export const CC_CONTROLS: Record<string, string> = {
-  'CC1.1.1': '526475ca69d24b67a4f7ddf8d8964201',
-  'CC1.1.3': '53107304c6764dad877fe3dc62b7fe2f',
-  'CC1.5.1': '519cf166e30d44bfb454d388ed246e04',
-  'CC2.3.3': 'cdfb1ee20e754a98b2ee05e323f44433',
-  'CC2.3.4': '1b4a8dad05ac803ba447fc9262f97f83',
-  'CC6.2.2': '808186e5ec0845e99539c798f47ffb15',
-  'CC8.1.1': 'fc9d81e43f8440c8b798d5018a890134',
-  'CC9.1.1': '54d40b58483548bebe4d087df35eed07',
-  'CC9.1.2': 'ab72611c438740fe8ab4f7dcac850c91',
-  'CC-P2.1': 'df929f142b7d418893dd979ceeee50f8',
-  'CC.AI.1': '21ea8dad05ac8094a02de223590bc0b3',
-};
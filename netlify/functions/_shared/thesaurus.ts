@@ -0,0 +1,112 @@
+/**
+ * Security Vocabulary Thesaurus
+ *
+ * Maps acronyms and alternate phrasings from security questionnaires
+ * ("DR", "2FA", "pen test") onto the same concepts, so a question phrased one
+ * way still finds content written another way. The vocabulary lives in
+ * config/search-synonyms.json and is shared by query expansion at search time
+ * and keyword extraction at export time.
+ */
+
+import synonymsData from '../../../config/search-synonyms.json';
+import { tokenize } from './bm25.js';
+
+interface Phrase {
+  // Tokens used to detect the phrase in text (hyphenated words split apart)
+  match: string[];
+  // Search terms the phrase contributes to an expanded query
+  terms: string[];
+}
+
+interface Concept {
+  keyword: string;
+  phrases: Phrase[];
+}
+
+// Terms added by expansion count for less than the words actually asked
+const EXPANSION_WEIGHT = 0.5;
+
+/**
+ * Tokens for phrase matching: "role-based access" and "role based access"
+ * tokenize identically, while control numbers (CC-P2.1) stay whole
+ */
+function matchTokens(text: string): string[] {
+  return tokenize(
+    text.replace(/[a-z0-9]+(?:-[a-z0-9]+)+/gi, (word) =>
+      /^cc/i.test(word) ? word : word.replace(/(?<=[a-z])-(?=[a-z])/gi, ' ')
+    )
+  );
+}
+
+const concepts: Concept[] = synonymsData.concepts.map((concept) => ({
+  keyword: concept.keyword,
+  phrases: concept.synonyms.map((synonym) => ({
+    match: matchTokens(synonym),
+    terms: tokenize(synonym),
+  })),
+}));
+
+/**
+ * Whether needle occurs as a contiguous run of tokens in haystack
+ */
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0) return false;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    let j = 0;
+    while (j < needle.length && haystack[i + j] === needle[j]) j++;
+    if (j === needle.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Concepts mentioned anywhere in a token sequence
+ */
+function findConcepts(tokens: string[]): Concept[] {
+  const present = new Set(tokens);
+  return concepts.filter((concept) =>
+    concept.phrases.some(
+      (phrase) => phrase.match.every((t) => present.has(t)) && containsSequence(tokens, phrase.match)
+    )
+  );
+}
+
+/**
+ * Expand a query into weighted search terms: the query's own terms at full
+ * weight, plus every phrasing of each concept it mentions at reduced weight.
+ */
+export function expandQuery(query: string): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const term of tokenize(query)) {
+    weights.set(term, 1);
+  }
+
+  for (const concept of findConcepts(matchTokens(query))) {
+    for (const phrase of concept.phrases) {
+      for (const term of phrase.terms) {
+        if (!weights.has(term)) weights.set(term, EXPANSION_WEIGHT);
+      }
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Extract keywords from page content: CC control numbers plus the keyword of
+ * every concept the page mentions
+ */
+export function extractKeywords(title: string, content: string): string[] {
+  const text = `${title} ${content}`;
+  const keywords = new Set<string>();
+
+  // CC control numbers
+  const ccMatches = text.match(/cc[\d\.]+/gi) || [];
+  ccMatches.forEach((m) => keywords.add(m.toUpperCase()));
+
+  for (const concept of findConcepts(matchTokens(text))) {
+    keywords.add(concept.keyword);
+  }
+
+  return Array.from(keywords);
+}
@@ -0,0 +1,109 @@
+/**
+ * POST /api/ask-stream
+ *
+ * Same as /api/ask, streamed as Server-Sent Events so the Ask page can show
+ * the answer forming: `search` and `found` events as sources are searched,
+ * `text` events with answer text (`reset` discards text that led up to a
+ * tool call), then `done` with the full result, or `error`.
+ */
+
+import { stream } from '@netlify/functions';
+import { askQuestion, type AskEvent, type AskResult } from './_shared/claude.js';
+import { requireAuth } from './_shared/auth.js';
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+};
+
+type StreamEvent =
+  | AskEvent
+  | { type: 'done'; result: AskResult }
+  | { type: 'error'; error: string; details: string };
+
+export const handler = stream(async (event) => {
+  // Handle CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  // Require authentication
+  const authResult = requireAuth(event.headers.cookie);
+  if ('error' in authResult) {
+    return {
+      statusCode: authResult.error.statusCode,
+      headers,
+      body: authResult.error.body,
+    };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Invalid JSON body' }),
+    };
+  }
+
+  const { question, context: questionContext, adaptApproved } = body;
+
+  if (!question || typeof question !== 'string') {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify({ error: 'Question is required' }),
+    };
+  }
+
+  console.log('Streaming answer to question:', question.slice(0, 100));
+
+  const encoder = new TextEncoder();
+  const events = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (streamEvent: StreamEvent) => {
+        controller.enqueue(encoder.encode(`event: ${streamEvent.type}\ndata: ${JSON.stringify(streamEvent)}\n\n`));
+      };
+
+      try {
+        const result = await askQuestion(question, questionContext, {
+          adaptApproved: adaptApproved === true,
+          onEvent: send,
+        });
+        send({ type: 'done', result });
+      } catch (error) {
+        // Headers have gone out by now, so errors are reported in the stream
+        console.error('Error in /api/ask-stream:', error);
+        send({
+          type: 'error',
+          error: 'Failed to process question',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+    body: events,
+  };
+});
@@ -1,7 +1,9 @@
 /**
  * POST /api/ask
  * 
- * Ask a single question, returns response with citations.
+ * Ask a single question, returns response with citations. Questions that
+ * repeat an approved Q&A pair get its answer as-is, or with adaptApproved,
+ * lightly reworded to the question.
  */
 
 import type { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
@@ -44,7 +46,7 @@ export const handler: Handler = async (
 
   try {
     const body = JSON.parse(event.body || '{}');
-    const { question, context: questionContext } = body;
+    const { question, context: questionContext, adaptApproved } = body;
 
     if (!question || typeof question !== 'string') {
       return {
@@ -56,7 +58,7 @@ export const handler: Handler = async (
 
     console.log('Processing question:', question.slice(0, 100));
 
-    const result = await askQuestion(question, questionContext);
+    const result = await askQuestion(question, questionContext, { adaptApproved: adaptApproved === true });
 
     return {
       statusCode: 200,
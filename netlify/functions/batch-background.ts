@@ -57,6 +57,11 @@ export const handler: Handler = async (event: HandlerEvent) => {
           question: q.question,
           answer: result.answer,
           citations: result.citations,
+          provenance: result.provenance,
+          qaMatch: result.qaMatch,
+          structured: result.structured,
+          citationChecks: result.citationChecks,
+          citedSources: result.citedSources,
         });
 
         console.log(`Completed question ${q.id}`);
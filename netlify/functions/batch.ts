@@ -6,7 +6,7 @@
  */
 
 import type { Handler, HandlerEvent } from '@netlify/functions';
-import { askQuestion } from './_shared/claude.js';
+import { askQuestion, type AskResult } from './_shared/claude.js';
 import { requireAuth } from './_shared/auth.js';
 
 const headers = {
@@ -27,6 +27,11 @@ interface BatchResult {
   question: string;
   answer: string;
   citations: string[];
+  provenance?: AskResult['provenance'];
+  qaMatch?: AskResult['qaMatch'];
+  structured?: AskResult['structured'];
+  citationChecks?: AskResult['citationChecks'];
+  citedSources?: AskResult['citedSources'];
   error?: string;
 }
 
@@ -105,6 +110,11 @@ export const handler: Handler = async (event: HandlerEvent) => {
           question: q.question,
           answer: result.answer,
           citations: result.citations,
+          provenance: result.provenance,
+          qaMatch: result.qaMatch,
+          structured: result.structured,
+          citationChecks: result.citationChecks,
+          citedSources: result.citedSources,
         });
       } catch (error) {
         results.push({
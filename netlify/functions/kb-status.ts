@@ -0,0 +1,60 @@
+/**
+ * GET /api/kb-status
+ *
+ * Reports knowledge-base freshness: export times, page counts, docs
+ * submodule commit, Q&A pair count, resolved index files and staleness
+ * warnings.
+ */
+
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { getKnowledgeBaseStatus } from './_shared/kb-status.js';
+import { requireAuth } from './_shared/auth.js';
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json',
+};
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  // Require authentication
+  const authResult = requireAuth(event.headers.cookie);
+  if ('error' in authResult) {
+    return {
+      statusCode: authResult.error.statusCode,
+      headers,
+      body: authResult.error.body,
+    };
+  }
+
+  try {
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(await getKnowledgeBaseStatus()),
+    };
+  } catch (error) {
+    console.error('Error reading knowledge base status:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to read knowledge base status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
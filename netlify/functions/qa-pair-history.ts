@@ -0,0 +1,150 @@
+/**
+ * /api/qa-pair-history
+ *
+ * GET ?id= - Every recorded version of a Q&A pair, oldest first, with the
+ *   author and time of each change
+ * POST - Revert a pair to an earlier version ({ id, version, toVersion }),
+ *   restoring every field the revision recorded. The revert is a new
+ *   version, so the history keeps what it replaced.
+ */
+
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { getQAPairHistory, updateQAPair } from './_shared/qa-store.js';
+import { requireAuth } from './_shared/auth.js';
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Content-Type': 'application/json',
+};
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Require authentication
+  const authResult = requireAuth(event.headers.cookie);
+  if ('error' in authResult) {
+    return {
+      statusCode: authResult.error.statusCode,
+      headers,
+      body: authResult.error.body,
+    };
+  }
+
+  try {
+    // GET - History of one pair
+    if (event.httpMethod === 'GET') {
+      const id = event.queryStringParameters?.id;
+
+      if (!id) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'id query parameter required' }),
+        };
+      }
+
+      const revisions = await getQAPairHistory(id);
+      if (revisions.length === 0) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: `No history for Q&A pair ${id}` }),
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ id, revisions }),
+      };
+    }
+
+    // POST - Revert to an earlier version
+    if (event.httpMethod === 'POST') {
+      const { id, version, toVersion } = JSON.parse(event.body || '{}');
+
+      if (typeof id !== 'string' || typeof version !== 'number' || typeof toVersion !== 'number') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'id, version and toVersion are required' }),
+        };
+      }
+
+      const target = (await getQAPairHistory(id)).find(
+        (revision) => revision.version === toVersion && revision.action !== 'deleted'
+      );
+      if (!target) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: `Version ${toVersion} of Q&A pair ${id} not found` }),
+        };
+      }
+
+      const result = await updateQAPair(
+        id,
+        version,
+        {
+          q: target.q,
+          a: target.a,
+          keywords: target.keywords,
+          alternates: target.alternates,
+          category: target.category,
+          tags: target.tags,
+          reviewBy: target.reviewBy,
+          sourcePages: target.sourcePages,
+        },
+        authResult.user.email,
+        { revertedFrom: toVersion }
+      );
+
+      if (!result.ok) {
+        return result.reason === 'conflict'
+          ? {
+              statusCode: 409,
+              headers,
+              body: JSON.stringify({
+                error: `Q&A pair ${id} was changed by someone else. Reload and try again.`,
+                id,
+                current: result.current,
+              }),
+            }
+          : {
+              statusCode: 404,
+              headers,
+              body: JSON.stringify({ error: `Q&A pair ${id} not found. It may have been deleted.`, id }),
+            };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          message: `Q&A pair reverted to version ${toVersion}`,
+          pair: result.value,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  } catch (error) {
+    console.error('Error in /api/qa-pair-history:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to process request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
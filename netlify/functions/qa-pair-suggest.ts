@@ -0,0 +1,74 @@
+/**
+ * /api/qa-pair-suggest
+ *
+ * POST - Pre-fill a Q&A pair from a generated answer
+ *   ({ question, answer, citations? }). Returns { q, a, keywords } for the
+ *   user to review before saving it through /api/qa-pairs; nothing is stored.
+ */
+
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import { suggestQAPair } from './_shared/qa-store.js';
+import { requireAuth } from './_shared/auth.js';
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+};
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  // Require authentication
+  const authResult = requireAuth(event.headers.cookie);
+  if ('error' in authResult) {
+    return {
+      statusCode: authResult.error.statusCode,
+      headers,
+      body: authResult.error.body,
+    };
+  }
+
+  try {
+    const { question, answer, citations } = JSON.parse(event.body || '{}');
+
+    if (typeof question !== 'string' || typeof answer !== 'string' || !question.trim() || !answer.trim()) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'question and answer are required' }),
+      };
+    }
+
+    const citationList = Array.isArray(citations)
+      ? citations.filter((c): c is string => typeof c === 'string' && c.trim() !== '')
+      : [];
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(suggestQAPair(question, answer, citationList)),
+    };
+  } catch (error) {
+    console.error('Error in /api/qa-pair-suggest:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to process request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
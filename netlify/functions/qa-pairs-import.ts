@@ -0,0 +1,213 @@
+/**
+ * /api/qa-pairs-import
+ *
+ * POST - Import Q&A pairs from a spreadsheet the browser has already parsed
+ *   ({ rows: [{ question, answer, keywords?, category?, tags?, alternates? }],
+ *   commit?, versions? }). Rows are matched to existing pairs by question. Without commit, returns
+ *   the preview: what each row would add or update, and which rows are
+ *   invalid. With commit, imports every row in one write: new questions
+ *   become drafts and changed answers go back through review. versions
+ *   maps the ids of previewed pairs to the versions seen; if any of them
+ *   has changed since, nothing is imported and 409 returns the pair.
+ */
+
+import type { Handler, HandlerEvent } from '@netlify/functions';
+import {
+  previewQAImport,
+  importQAPairs,
+  questionKey,
+  parseCategory,
+  MAX_CATEGORY_LENGTH,
+  type QAImportRow,
+} from './_shared/qa-store.js';
+import { validateAnswerFormat } from './_shared/answer-format.js';
+import { requireAuth } from './_shared/auth.js';
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+};
+
+// Keeps one import within a single function invocation
+const MAX_ROWS = 1000;
+
+/**
+ * Split a keywords or tags cell ("a, b; c") or pass through an array.
+ * Alternate phrasings can contain commas, so they split on `separator`.
+ */
+function parseList(value: unknown, separator = /[,;\n]/): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(separator);
+  return [...new Set(items.map((item) => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Normalize one row, or list what is wrong with it
+ */
+function parseRow(raw: unknown): { row: QAImportRow } | { errors: string[] } {
+  const { question, answer, keywords, category, tags, alternates } = (raw || {}) as Record<string, unknown>;
+  const q = typeof question === 'string' ? question.trim() : '';
+  const a = typeof answer === 'string' ? answer.trim() : '';
+
+  const errors: string[] = [];
+  if (!q) errors.push('Question is empty.');
+  if (!a) errors.push('Answer is empty.');
+  else errors.push(...validateAnswerFormat(a));
+
+  // No column keeps the pair's category; an empty cell clears it
+  let parsedCategory: string | undefined;
+  if (category !== undefined && category !== null) {
+    const parsed = parseCategory(String(category));
+    if (parsed === null) errors.push(`Category must be at most ${MAX_CATEGORY_LENGTH} characters.`);
+    else parsedCategory = parsed ?? '';
+  }
+  if (errors.length > 0) return { errors };
+
+  return {
+    row: {
+      q,
+      a,
+      keywords: parseList(keywords),
+      category: parsedCategory,
+      tags: parseList(tags),
+      alternates: parseList(alternates, /[;\n]/),
+    },
+  };
+}
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  // Require authentication
+  const authResult = requireAuth(event.headers.cookie);
+  if ('error' in authResult) {
+    return {
+      statusCode: authResult.error.statusCode,
+      headers,
+      body: authResult.error.body,
+    };
+  }
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+
+    if (!Array.isArray(body.rows) || body.rows.length === 0) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'rows must be a non-empty array' }),
+      };
+    }
+
+    if (body.rows.length > MAX_ROWS) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: `Import at most ${MAX_ROWS} rows at a time` }),
+      };
+    }
+
+    // Row numbers are 1-based positions in the submitted rows
+    const rows: Array<{ index: number; row: QAImportRow }> = [];
+    const invalid: Array<{ index: number; question: string; errors: string[] }> = [];
+    const seen = new Map<string, number>();
+
+    body.rows.forEach((raw: unknown, i: number) => {
+      const parsed = parseRow(raw);
+      const question = String((raw as Record<string, unknown> | null)?.question ?? '');
+      if ('errors' in parsed) {
+        invalid.push({ index: i + 1, question, errors: parsed.errors });
+        return;
+      }
+
+      const key = questionKey(parsed.row.q);
+      const first = seen.get(key);
+      if (first !== undefined) {
+        invalid.push({ index: i + 1, question, errors: [`Same question as row ${first}.`] });
+        return;
+      }
+      seen.set(key, i + 1);
+      rows.push({ index: i + 1, row: parsed.row });
+    });
+
+    if (!body.commit) {
+      const changes = await previewQAImport(rows.map((r) => r.row));
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          changes: changes.map((change, i) => ({ index: rows[i].index, ...change })),
+          invalid,
+        }),
+      };
+    }
+
+    if (invalid.length > 0) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: `${invalid.length} row(s) are invalid; fix or remove them before importing`,
+          details: invalid.map((r) => `Row ${r.index}: ${r.errors.join(' ')}`),
+        }),
+      };
+    }
+
+    const versions = body.versions && typeof body.versions === 'object' ? body.versions : {};
+    const result = await importQAPairs(
+      rows.map((r) => r.row),
+      versions,
+      authResult.user.email
+    );
+
+    if (!result.ok) {
+      return result.reason === 'conflict'
+        ? {
+            statusCode: 409,
+            headers,
+            body: JSON.stringify({
+              error: `"${result.current.q}" was changed since the preview. Preview the import again.`,
+              id: result.id,
+              current: result.current,
+            }),
+          }
+        : {
+            statusCode: 404,
+            headers,
+            body: JSON.stringify({ error: `Q&A pair ${result.id} not found. Preview the import again.`, id: result.id }),
+          };
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        message: `Imported ${result.value.added.length} new and ${result.value.updated.length} updated Q&A pair(s)`,
+        added: result.value.added,
+        updated: result.value.updated,
+      }),
+    };
+  } catch (error) {
+    console.error('Error in /api/qa-pairs-import:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to process request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
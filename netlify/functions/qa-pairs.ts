@@ -1,32 +1,151 @@
 /**
  * /api/qa-pairs
- * 
- * GET - List all Q&A pairs
- * POST - Add a new Q&A pair
+ *
+ * GET - List all Q&A pairs, or search with ?q=
+ * POST - Add a new Q&A pair, or with mergeInto: { id, version } add the
+ *   question as an alternate phrasing of that pair instead
+ * PUT - Edit a Q&A pair ({ id, version, question?, answer?, keywords?,
+ *   alternates?, category?, tags?, reviewBy?, sourcePages? }), or change its
+ *   status ({ id, version, status, reviewer? }). reviewBy is YYYY-MM-DD, or
+ *   null to clear it; an empty category clears it. With
+ *   mergeInto: { id, version }, the pair is merged into that pair as an
+ *   alternate phrasing and deleted.
+ * DELETE - Delete one or more Q&A pairs ({ pairs: [{ id, version }] })
+ *
+ * Edits and deletes carry the version the admin last saw; if the pair has
+ * changed since, nothing is written and 409 returns the current pair.
+ * Adding a question, or rewording one, that is close to an existing pair's
+ * is also refused with 409, listing the similar pairs as duplicates, unless
+ * force is set.
+ * Every change is recorded in the pair's history under the signed-in user.
  */
 
 import type { Handler, HandlerEvent } from '@netlify/functions';
-import { getAllQAPairs, addQAPair, searchQAPairs } from './_shared/qa-store.js';
+import {
+  getAllQAPairs,
+  addQAPair,
+  updateQAPair,
+  deleteQAPairs,
+  setQAPairStatus,
+  searchQAPairs,
+  findSimilarQAPairs,
+  mergeIntoQAPair,
+  parseCategory,
+  QA_STATUSES,
+  MAX_CATEGORY_LENGTH,
+  type QAStatus,
+  type QAPairChanges,
+  type QAWriteResult,
+  type QASimilarPair,
+} from './_shared/qa-store.js';
+import { validateAnswerFormat } from './_shared/answer-format.js';
+import { requireAuth } from './_shared/auth.js';
 
 const headers = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type',
-  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
   'Content-Type': 'application/json',
 };
 
+/**
+ * Normalize a keywords, tags, alternates or source pages field: trimmed,
+ * non-empty, de-duplicated strings
+ */
+function parseStringList(list: unknown): string[] | null {
+  if (list === undefined) return [];
+  if (!Array.isArray(list) || !list.every((k) => typeof k === 'string')) return null;
+  return [...new Set(list.map((k: string) => k.trim()).filter(Boolean))];
+}
+
+/**
+ * Normalize a review-by date: YYYY-MM-DD, or undefined when cleared.
+ * Returns null for anything else.
+ */
+function parseReviewBy(reviewBy: unknown): string | undefined | null {
+  if (reviewBy === undefined || reviewBy === null || reviewBy === '') return undefined;
+  if (typeof reviewBy !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(reviewBy) || isNaN(Date.parse(reviewBy))) {
+    return null;
+  }
+  return reviewBy;
+}
+
+/**
+ * Parse a { id, version } reference to another pair
+ */
+function parsePairRef(ref: unknown): { id: string; version: number } | null {
+  const { id, version } = (ref || {}) as Record<string, unknown>;
+  return typeof id === 'string' && typeof version === 'number' ? { id, version } : null;
+}
+
+/**
+ * Response for a question that (nearly) repeats existing pairs
+ */
+function duplicateResponse(duplicates: QASimilarPair[]) {
+  return {
+    statusCode: 409,
+    headers,
+    body: JSON.stringify({
+      error: 'Similar questions are already in the library. Merge this question into one of them, or save it anyway.',
+      duplicates: duplicates.slice(0, 3),
+    }),
+  };
+}
+
+/**
+ * Response for a write rejected because the pair is gone or has changed
+ */
+function writeFailure(result: Extract<QAWriteResult<unknown>, { ok: false }>) {
+  if (result.reason === 'not_found') {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify({ error: `Q&A pair ${result.id} not found. It may have been deleted.`, id: result.id }),
+    };
+  }
+
+  if (result.reason === 'conflict') {
+    return {
+      statusCode: 409,
+      headers,
+      body: JSON.stringify({
+        error: `Q&A pair ${result.id} was changed by someone else. Reload and try again.`,
+        id: result.id,
+        current: result.current,
+      }),
+    };
+  }
+
+  // Status change not allowed
+  return {
+    statusCode: result.reason === 'forbidden' ? 403 : 400,
+    headers,
+    body: JSON.stringify({ error: result.message, id: result.id }),
+  };
+}
+
 export const handler: Handler = async (event: HandlerEvent) => {
   if (event.httpMethod === 'OPTIONS') {
     return { statusCode: 200, headers, body: '' };
   }
 
+  // Require authentication
+  const authResult = requireAuth(event.headers.cookie);
+  if ('error' in authResult) {
+    return {
+      statusCode: authResult.error.statusCode,
+      headers,
+      body: authResult.error.body,
+    };
+  }
+
   try {
     // GET - List all or search
     if (event.httpMethod === 'GET') {
       const query = event.queryStringParameters?.q;
-      
+
       if (query) {
-        const results = searchQAPairs(query);
+        const results = await searchQAPairs(query);
         return {
           statusCode: 200,
           headers,
@@ -34,7 +153,7 @@ export const handler: Handler = async (event: HandlerEvent) => {
         };
       }
 
-      const pairs = getAllQAPairs();
+      const pairs = await getAllQAPairs();
       return {
         statusCode: 200,
         headers,
@@ -45,9 +164,39 @@ export const handler: Handler = async (event: HandlerEvent) => {
     // POST - Add new pair
     if (event.httpMethod === 'POST') {
       const body = JSON.parse(event.body || '{}');
-      const { question, answer, keywords } = body;
+      const { question, answer } = body;
+      const keywords = parseStringList(body.keywords);
+      const sourcePages = parseStringList(body.sourcePages);
+      const tags = parseStringList(body.tags);
+      const alternates = parseStringList(body.alternates);
+      const category = parseCategory(body.category);
+      const reviewBy = parseReviewBy(body.reviewBy);
+
+      // Merge - the question becomes an alternate phrasing of an existing pair
+      if (body.mergeInto !== undefined) {
+        const target = parsePairRef(body.mergeInto);
+        if (!target || typeof question !== 'string' || !question.trim()) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'question and mergeInto: { id, version } are required' }),
+          };
+        }
+
+        const result = await mergeIntoQAPair(target, { question: question.trim() }, authResult.user.email);
+        if (!result.ok) return writeFailure(result);
 
-      if (!question || !answer) {
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({
+            message: 'Question added as an alternate phrasing',
+            pair: result.value,
+          }),
+        };
+      }
+
+      if (typeof question !== 'string' || !question.trim() || typeof answer !== 'string' || !answer.trim()) {
         return {
           statusCode: 400,
           headers,
@@ -55,22 +204,300 @@ export const handler: Handler = async (event: HandlerEvent) => {
         };
       }
 
-      const newPair = addQAPair(
-        question,
-        answer,
-        keywords || []
-      );
+      if (!keywords) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Keywords must be an array of strings' }),
+        };
+      }
+
+      if (!sourcePages) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Source pages must be an array of strings' }),
+        };
+      }
+
+      if (!tags) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Tags must be an array of strings' }),
+        };
+      }
+
+      if (!alternates) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Alternates must be an array of strings' }),
+        };
+      }
+
+      if (category === null) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: `Category must be text of at most ${MAX_CATEGORY_LENGTH} characters` }),
+        };
+      }
+
+      if (reviewBy === null) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Review-by date must be YYYY-MM-DD' }),
+        };
+      }
+
+      const formatErrors = validateAnswerFormat(answer);
+      if (formatErrors.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Answer does not follow the response format', details: formatErrors }),
+        };
+      }
+
+      if (!body.force) {
+        const duplicates = await findSimilarQAPairs(question.trim());
+        if (duplicates.length > 0) return duplicateResponse(duplicates);
+      }
+
+      const newPair = await addQAPair(question.trim(), answer.trim(), keywords, authResult.user.email, {
+        reviewBy,
+        sourcePages,
+        category,
+        tags,
+        alternates,
+      });
 
       return {
         statusCode: 201,
         headers,
-        body: JSON.stringify({ 
-          message: 'Q&A pair added',
+        body: JSON.stringify({
+          message: 'Q&A pair added as a draft',
           pair: newPair,
         }),
       };
     }
 
+    // PUT - Edit a pair
+    if (event.httpMethod === 'PUT') {
+      const body = JSON.parse(event.body || '{}');
+      const { id, version, question, answer } = body;
+
+      if (typeof id !== 'string' || typeof version !== 'number') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'id and version are required' }),
+        };
+      }
+
+      // Status change (submit for review, approve, retire, back to draft)
+      if (body.status !== undefined) {
+        if (!QA_STATUSES.includes(body.status) || (body.reviewer !== undefined && typeof body.reviewer !== 'string')) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: `status must be one of ${QA_STATUSES.join(', ')}` }),
+          };
+        }
+
+        const result = await setQAPairStatus(
+          id,
+          version,
+          body.status as QAStatus,
+          authResult.user.email,
+          body.reviewer?.trim() || undefined
+        );
+        if (!result.ok) return writeFailure(result);
+
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({
+            message: `Q&A pair is now ${result.value.status}`,
+            pair: result.value,
+          }),
+        };
+      }
+
+      // Merge - this pair becomes an alternate phrasing of another and is deleted
+      if (body.mergeInto !== undefined) {
+        const target = parsePairRef(body.mergeInto);
+        if (!target) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'mergeInto must be { id, version }' }),
+          };
+        }
+
+        const result = await mergeIntoQAPair(target, { id, version }, authResult.user.email);
+        if (!result.ok) return writeFailure(result);
+
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({
+            message: 'Q&A pair merged as an alternate phrasing',
+            pair: result.value,
+            deleted: id,
+          }),
+        };
+      }
+
+      const changes: QAPairChanges = {};
+
+      if (question !== undefined) {
+        if (typeof question !== 'string' || !question.trim()) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Question cannot be empty' }),
+          };
+        }
+        changes.q = question.trim();
+      }
+
+      if (answer !== undefined) {
+        const formatErrors = typeof answer === 'string' ? validateAnswerFormat(answer) : ['Answer must be a string'];
+        if (formatErrors.length > 0) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Answer does not follow the response format', details: formatErrors }),
+          };
+        }
+        changes.a = answer.trim();
+      }
+
+      if (body.keywords !== undefined) {
+        const keywords = parseStringList(body.keywords);
+        if (!keywords) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Keywords must be an array of strings' }),
+          };
+        }
+        changes.keywords = keywords;
+      }
+
+      if (body.sourcePages !== undefined) {
+        const sourcePages = parseStringList(body.sourcePages);
+        if (!sourcePages) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Source pages must be an array of strings' }),
+          };
+        }
+        changes.sourcePages = sourcePages;
+      }
+
+      if (body.tags !== undefined) {
+        const tags = parseStringList(body.tags);
+        if (!tags) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Tags must be an array of strings' }),
+          };
+        }
+        changes.tags = tags;
+      }
+
+      if (body.alternates !== undefined) {
+        const alternates = parseStringList(body.alternates);
+        if (!alternates) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Alternates must be an array of strings' }),
+          };
+        }
+        changes.alternates = alternates;
+      }
+
+      if ('category' in body) {
+        const category = parseCategory(body.category);
+        if (category === null) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: `Category must be text of at most ${MAX_CATEGORY_LENGTH} characters` }),
+          };
+        }
+        changes.category = category;
+      }
+
+      if ('reviewBy' in body) {
+        const reviewBy = parseReviewBy(body.reviewBy);
+        if (reviewBy === null) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ error: 'Review-by date must be YYYY-MM-DD' }),
+          };
+        }
+        changes.reviewBy = reviewBy;
+      }
+
+      // Only a reworded question is checked, so existing near-duplicates stay editable
+      const current = (await getAllQAPairs()).find((p) => p.id === id);
+      if (changes.q && current && changes.q !== current.q && !body.force) {
+        const duplicates = await findSimilarQAPairs(changes.q, id);
+        if (duplicates.length > 0) return duplicateResponse(duplicates);
+      }
+
+      const result = await updateQAPair(id, version, changes, authResult.user.email);
+      if (!result.ok) return writeFailure(result);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          message: 'Q&A pair updated',
+          pair: result.value,
+        }),
+      };
+    }
+
+    // DELETE - Delete one or more pairs
+    if (event.httpMethod === 'DELETE') {
+      const body = JSON.parse(event.body || '{}');
+      const targets = body.pairs;
+
+      if (
+        !Array.isArray(targets) ||
+        targets.length === 0 ||
+        !targets.every((t) => typeof t?.id === 'string' && typeof t?.version === 'number')
+      ) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'pairs must be a non-empty array of { id, version }' }),
+        };
+      }
+
+      const result = await deleteQAPairs(targets, authResult.user.email);
+      if (!result.ok) return writeFailure(result);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          message: `Deleted ${result.value.length} Q&A pair(s)`,
+          deleted: result.value,
+        }),
+      };
+    }
+
     return {
       statusCode: 405,
       headers,
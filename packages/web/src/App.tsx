@@ -50,7 +50,7 @@ function App() {
       <main className="max-w-5xl mx-auto px-4 py-8">
         {currentPage === 'ask' && <AskPage />}
         {currentPage === 'batch' && <BatchPage />}
-        {currentPage === 'admin' && <AdminPage />}
+        {currentPage === 'admin' && <AdminPage currentUserEmail={user?.email} />}
       </main>
     </div>
   );
@@ -0,0 +1,93 @@
+// A citation checked against the sources that were retrieved for the answer
+export interface CitationCheck {
+  citation: string;
+  status: 'verified' | 'unverified' | 'unknown';
+  reason?: string;
+}
+
+// A cited source and where to read it
+export interface CitedSource {
+  // The source as cited
+  citation: string;
+  type: 'notion' | 'docs' | 'qa' | 'other';
+  title: string;
+  url?: string;
+  lastUpdated?: string;
+  excerpt?: string;
+}
+
+const TYPE_LABELS: Record<CitedSource['type'], string> = {
+  notion: 'Notion',
+  docs: 'Docs',
+  qa: 'Approved Q&A',
+  other: 'Other',
+};
+
+const STATUS_STYLES: Record<CitationCheck['status'], { icon: string; className: string; title: string }> = {
+  verified: {
+    icon: '✓',
+    className: 'border-zenlytic-green/30 text-zenlytic-green',
+    title: 'Matches a source retrieved for this answer',
+  },
+  unknown: {
+    icon: '?',
+    className: 'border-white/10 text-gray-400',
+    title: "Doesn't name a source that can be checked",
+  },
+  unverified: {
+    icon: '⚠',
+    className: 'border-yellow-500/40 text-yellow-400',
+    title: "Doesn't match the sources retrieved for this answer",
+  },
+};
+
+/**
+ * The check covering a cited source; citations listing several sources are
+ * checked as a whole
+ */
+export function findCitationCheck(checks: CitationCheck[], source: CitedSource): CitationCheck | undefined {
+  return checks.find((check) => check.citation.split(';').some((part) => part.trim() === source.citation));
+}
+
+/**
+ * Cited sources as chips that open the source, with its excerpt, type and
+ * last-updated date on hover. Unverified citations say why.
+ */
+export function CitationChips({ sources, checks }: { sources: CitedSource[]; checks: CitationCheck[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {sources.map((source, i) => {
+        const check = findCitationCheck(checks, source);
+        const style = STATUS_STYLES[check?.status || 'unknown'];
+        const chipClassName = `inline-flex items-center gap-1.5 max-w-xs px-2.5 py-1 text-xs bg-white/5 rounded-full border ${style.className}`;
+        const label = (
+          <>
+            <span title={style.title}>{style.icon}</span>
+            <span className="truncate">{source.title}</span>
+          </>
+        );
+
+        return (
+          <div key={`${source.citation}-${i}`} className="relative group">
+            {source.url ? (
+              <a href={source.url} target="_blank" rel="noopener noreferrer" className={`${chipClassName} hover:bg-white/10`}>
+                {label}
+              </a>
+            ) : (
+              <span className={chipClassName}>{label}</span>
+            )}
+            <div className="absolute z-10 left-0 top-full mt-1 hidden group-hover:block w-80 p-3 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg shadow-lg text-xs space-y-1">
+              <p className="text-gray-500">
+                {TYPE_LABELS[source.type]}
+                {source.lastUpdated && ` · updated ${new Date(source.lastUpdated).toLocaleDateString()}`}
+              </p>
+              {source.citation !== source.title && <p className="text-gray-400">Cited as: {source.citation}</p>}
+              {source.excerpt && <p className="text-gray-200 whitespace-pre-line">{source.excerpt}</p>}
+              {check?.reason && <p className="text-yellow-400">{check.reason}</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { STATUS_LABELS, type QAPair } from './QAPairCard';
+
+export interface DuplicateMatch {
+  pair: QAPair;
+  // The pair's question or alternate phrasing that matched
+  question: string;
+  // 0-1, higher is closer
+  similarity: number;
+}
+
+/**
+ * Shown when a new or reworded question is close to existing pairs: each
+ * existing answer side by side with the proposed one, with a merge into that
+ * pair as an alternate phrasing, or saving as a separate pair anyway
+ */
+export function DuplicateWarning({
+  duplicates,
+  answer,
+  mergeLabel = 'Add as alternate phrasing',
+  onMerge,
+  onSaveAnyway,
+  onCancel,
+}: {
+  duplicates: DuplicateMatch[];
+  // The proposed answer
+  answer: string;
+  mergeLabel?: string;
+  // Resolves true when the question was merged
+  onMerge: (target: QAPair) => Promise<boolean>;
+  onSaveAnyway: () => void;
+  onCancel: () => void;
+}) {
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  const handleMerge = async (target: QAPair) => {
+    setMergingId(target.id);
+    await onMerge(target);
+    setMergingId(null);
+  };
+
+  return (
+    <div className="p-4 bg-yellow-500/5 rounded-lg border border-yellow-500/30 space-y-3 text-sm">
+      <p className="text-yellow-400">
+        This looks like a question that is already in the library. Two answers to the same question can drift
+        apart, so merge it into the existing pair unless it really asks something different.
+      </p>
+      {duplicates.map(({ pair, question, similarity }) => (
+        <div key={pair.id} className="p-3 bg-white/5 rounded-lg border border-white/10 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-gray-200">
+              {pair.q}
+              {question !== pair.q && <span className="block text-xs text-gray-500">Matched: {question}</span>}
+            </p>
+            <span className="shrink-0 text-xs text-gray-500">
+              {STATUS_LABELS[pair.status]} · {Math.round(similarity * 100)}% similar
+            </span>
+          </div>
+          <div className="grid md:grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Existing answer</p>
+              <p className="text-gray-300">{pair.a}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Your answer</p>
+              <p className="text-gray-300">{answer}</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleMerge(pair)}
+            disabled={mergingId !== null}
+            className="px-2 py-1 text-xs bg-zenlytic-cyan/20 text-zenlytic-cyan rounded border border-zenlytic-cyan/40 hover:bg-zenlytic-cyan/30 disabled:opacity-50 transition-all"
+          >
+            {mergingId === pair.id ? 'Merging...' : mergeLabel}
+          </button>
+        </div>
+      ))}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-gray-400 hover:text-white transition-colors"
+        >
+          Keep editing
+        </button>
+        <button
+          type="button"
+          onClick={onSaveAnyway}
+          disabled={mergingId !== null}
+          className="px-3 py-1.5 bg-white/5 text-gray-300 rounded-lg border border-white/10 hover:text-white disabled:opacity-50 transition-colors"
+        >
+          Save as a separate pair
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { daysUntilReview, EXPIRING_SOON_DAYS, type QAPair } from './QAPairCard';
+
+/**
+ * The same date a year later, for marking an answer as re-checked
+ */
+function oneYearAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCFullYear(next.getUTCFullYear() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Approved answers that are past or close to their review-by date, soonest
+ * first, each with a one-click "re-checked" that moves the date on a year
+ */
+export function ExpiringAnswers({
+  pairs,
+  onSetReviewBy,
+}: {
+  pairs: QAPair[];
+  // Resolves true when the date was saved
+  onSetReviewBy: (pair: QAPair, reviewBy: string) => Promise<boolean>;
+}) {
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const expiring = pairs
+    .filter((pair) => pair.status === 'approved')
+    .map((pair) => ({ pair, days: daysUntilReview(pair) }))
+    .filter((entry): entry is { pair: QAPair; days: number } => entry.days !== null && entry.days <= EXPIRING_SOON_DAYS)
+    .sort((a, b) => a.days - b.days);
+
+  if (expiring.length === 0) return null;
+
+  const handleExtend = async (pair: QAPair) => {
+    setSavingId(pair.id);
+    await onSetReviewBy(pair, oneYearAfter(pair.reviewBy!));
+    setSavingId(null);
+  };
+
+  return (
+    <div className="p-6 bg-yellow-500/5 rounded-xl border border-yellow-500/30">
+      <h2 className="text-lg font-semibold text-white font-heading mb-1">Expiring Soon ({expiring.length})</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Approved answers due for review in the next {EXPIRING_SOON_DAYS} days. Overdue answers are still used, but
+        ranked lower and flagged on the Ask and Batch pages.
+      </p>
+      <ul className="space-y-2">
+        {expiring.map(({ pair, days }) => (
+          <li key={pair.id} className="flex items-center justify-between gap-3 text-sm">
+            <div className="min-w-0">
+              <p className="text-gray-200 truncate">{pair.q}</p>
+              <p className={`text-xs ${days < 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+                {days < 0
+                  ? `Overdue since ${pair.reviewBy}`
+                  : days === 0
+                    ? 'Due today'
+                    : `Due ${pair.reviewBy} (in ${days} day${days === 1 ? '' : 's'})`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleExtend(pair)}
+              disabled={savingId !== null}
+              className="shrink-0 px-2 py-1 text-xs bg-white/5 text-gray-300 rounded border border-white/10 hover:text-zenlytic-cyan disabled:opacity-50 transition-colors"
+            >
+              {savingId === pair.id ? 'Saving...' : `Re-checked, due ${oneYearAfter(pair.reviewBy!)}`}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
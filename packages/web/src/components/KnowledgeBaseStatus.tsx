@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+
+interface KnowledgeBaseStatusResponse {
+  checkedAt: string;
+  staleAfterDays: number;
+  stale: boolean;
+  warnings: string[];
+  notion: {
+    available: boolean;
+    pageCount: number;
+    exportedAt?: string;
+    ageDays: number | null;
+    pagesByRoot: Record<string, number>;
+    files: Record<string, string | null>;
+  };
+  docs: {
+    available: boolean;
+    pageCount: number;
+    exportedAt?: string;
+    commit?: string;
+    committedAt?: string;
+    ageDays: number | null;
+    files: Record<string, string | null>;
+  };
+  qa: { count: number; byStatus: Record<'draft' | 'in_review' | 'approved' | 'retired', number>; overdue: number };
+}
+
+function formatDate(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : 'unknown';
+}
+
+function formatAge(ageDays: number | null): string {
+  if (ageDays === null) return '';
+  if (ageDays === 0) return ' (today)';
+  return ` (${ageDays} day${ageDays === 1 ? '' : 's'} ago)`;
+}
+
+function FileList({ files }: { files: Record<string, string | null> }) {
+  return (
+    <ul className="mt-2 space-y-0.5 text-xs font-mono">
+      {Object.entries(files).map(([file, path]) => (
+        <li key={file} className={path ? 'text-gray-500' : 'text-red-400'}>
+          {path || `${file} (not found)`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function KnowledgeBaseStatus() {
+  const [status, setStatus] = useState<KnowledgeBaseStatusResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/kb-status')
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to fetch');
+        return res.json();
+      })
+      .then(setStatus)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load status'));
+  }, []);
+
+  return (
+    <div className="p-6 bg-white/5 rounded-xl border border-white/10">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-white">Knowledge Base Status</h3>
+        {status && (
+          <span
+            className={`text-xs px-2 py-0.5 rounded border ${
+              status.stale
+                ? 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30'
+                : 'bg-zenlytic-green/10 text-zenlytic-green border-zenlytic-green/30'
+            }`}
+          >
+            {status.stale ? 'Stale' : 'Up to date'}
+          </span>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : !status ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="space-y-4 text-sm text-gray-400">
+          {status.warnings.length > 0 && (
+            <ul className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-1 text-yellow-400">
+              {status.warnings.map((warning, i) => (
+                <li key={i}>⚠ {warning}</li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <p className="flex items-center gap-2">
+              <span className="w-2 h-2 bg-zenlytic-green rounded-full" />
+              <strong className="text-gray-300">Notion</strong> -{' '}
+              {status.notion.available
+                ? `${status.notion.pageCount} pages, exported ${formatDate(status.notion.exportedAt)}${formatAge(status.notion.ageDays)}`
+                : 'index not available'}
+            </p>
+            {Object.keys(status.notion.pagesByRoot).length > 0 && (
+              <ul className="mt-2 ml-4 space-y-0.5">
+                {Object.entries(status.notion.pagesByRoot).map(([root, count]) => (
+                  <li key={root}>
+                    {root}: <span className="text-gray-300">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <FileList files={status.notion.files} />
+          </div>
+
+          <div>
+            <p className="flex items-center gap-2">
+              <span className="w-2 h-2 bg-zenlytic-blue rounded-full" />
+              <strong className="text-gray-300">Q&A Pairs</strong> - {status.qa.byStatus.approved} approved
+              responses ({status.qa.byStatus.in_review} in review, {status.qa.byStatus.draft} drafts
+              {status.qa.overdue > 0 && `, ${status.qa.overdue} overdue for review`})
+            </p>
+          </div>
+
+          <div>
+            <p className="flex items-center gap-2">
+              <span className="w-2 h-2 bg-zenlytic-cyan rounded-full" />
+              <strong className="text-gray-300">docs.zenlytic.com</strong> -{' '}
+              {status.docs.available
+                ? `${status.docs.pageCount} pages, exported ${formatDate(status.docs.exportedAt)}${status.docs.committedAt ? '' : formatAge(status.docs.ageDays)}`
+                : 'index not available'}
+            </p>
+            {status.docs.commit && (
+              <p className="mt-1 ml-4">
+                Submodule commit{' '}
+                <span className="font-mono text-gray-300">{status.docs.commit.slice(0, 7)}</span>
+                {status.docs.committedAt && ` from ${formatDate(status.docs.committedAt)}${formatAge(status.docs.ageDays)}`}
+              </p>
+            )}
+            <FileList files={status.docs.files} />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Checked {formatDate(status.checkedAt)}. Sources older than {status.staleAfterDays} days are
+            flagged as stale.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
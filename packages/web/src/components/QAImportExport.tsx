@@ -0,0 +1,394 @@
+import { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Diff } from './QAPairHistory';
+import type { QAPair } from './QAPairCard';
+import type { DuplicateMatch } from './DuplicateWarning';
+
+type ImportField = 'question' | 'answer' | 'alternates' | 'keywords' | 'category' | 'tags';
+
+const IMPORT_FIELDS: Array<{ id: ImportField; label: string; required: boolean; guess: RegExp }> = [
+  { id: 'question', label: 'Question', required: true, guess: /^(?!.*(alternat|other)).*question|^q$/i },
+  { id: 'answer', label: 'Answer', required: true, guess: /answer|response|^a$/i },
+  { id: 'alternates', label: 'Alternate phrasings', required: false, guess: /alternat|other question|phrasing/i },
+  { id: 'keywords', label: 'Keywords', required: false, guess: /keyword/i },
+  { id: 'category', label: 'Category', required: false, guess: /categor|topic|domain/i },
+  { id: 'tags', label: 'Tags', required: false, guess: /tag/i },
+];
+
+// Column index per field; null when the sheet has no such column
+type ImportMapping = Record<ImportField, number | null>;
+
+interface ImportRow {
+  question: string;
+  answer: string;
+  alternates?: string;
+  keywords?: string;
+  category?: string;
+  tags?: string;
+}
+
+interface ImportChange {
+  // 1-based position in the submitted rows
+  index: number;
+  action: 'add' | 'update' | 'unchanged';
+  row: { q: string; a: string; alternates?: string[]; keywords?: string[]; category?: string; tags?: string[] };
+  pair?: QAPair;
+  // For new questions, existing pairs with a similar question
+  similar?: DuplicateMatch[];
+}
+
+interface ImportPreview {
+  changes: ImportChange[];
+  invalid: Array<{ index: number; question: string; errors: string[] }>;
+}
+
+/**
+ * Error message from a failed API response, including validation details
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  const message = data.error || fallback;
+  return Array.isArray(data.details) ? `${message}: ${data.details.join(' ')}` : message;
+}
+
+function download(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+}
+
+/**
+ * Export the library to XLSX or JSON, and import a spreadsheet of pairs:
+ * map its columns, preview what it adds and changes, then commit
+ */
+export function QAImportExport({ pairs, onImported }: { pairs: QAPair[]; onImported: () => void }) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  // Non-empty rows below the header, with their row number in the sheet
+  const [dataRows, setDataRows] = useState<Array<{ cells: string[]; sheetRow: number }>>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({
+    question: null,
+    answer: null,
+    alternates: null,
+    keywords: null,
+    category: null,
+    tags: null,
+  });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const exportLibrary = (format: 'xlsx' | 'json') => {
+    const timestamp = new Date().toISOString().slice(0, 10);
+
+    if (format === 'json') {
+      const json = JSON.stringify({ exportedAt: new Date().toISOString(), pairs }, null, 2);
+      download(new Blob([json], { type: 'application/json' }), `qa-library-${timestamp}.json`);
+      return;
+    }
+
+    const worksheet = XLSX.utils.json_to_sheet(
+      pairs.map((p) => ({
+        Question: p.q,
+        Answer: p.a,
+        // One phrasing per line, as they can contain commas
+        Alternates: (p.alternates || []).join('\n'),
+        Keywords: p.keywords.join(', '),
+        Category: p.category || '',
+        Tags: (p.tags || []).join(', '),
+        Status: p.status,
+        'Review By': p.reviewBy || '',
+        'Source Pages': (p.sourcePages || []).join(', '),
+        ID: p.id,
+        Version: p.version,
+        'Updated By': p.updatedBy || '',
+        'Updated At': p.updatedAt || '',
+      }))
+    );
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Q&A Library');
+    XLSX.writeFile(workbook, `qa-library-${timestamp}.xlsx`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    setPreview(null);
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = (XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][]).map((row) =>
+        row.map((cell) => String(cell ?? '').trim())
+      );
+      if (rows.length < 2) throw new Error('The sheet needs a header row and at least one row of pairs');
+
+      const [headerRow, ...rest] = rows;
+      const guessed = Object.fromEntries(
+        IMPORT_FIELDS.map((field) => {
+          const index = headerRow.findIndex((header) => field.guess.test(header));
+          return [field.id, index === -1 ? null : index];
+        })
+      ) as ImportMapping;
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setDataRows(rest.map((cells, i) => ({ cells, sheetRow: i + 2 })).filter(({ cells }) => cells.some(Boolean)));
+      setMapping(guessed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const buildRows = (): ImportRow[] =>
+    dataRows.map(({ cells }) => ({
+      question: cells[mapping.question!] || '',
+      answer: cells[mapping.answer!] || '',
+      ...(mapping.alternates !== null && { alternates: cells[mapping.alternates] || '' }),
+      ...(mapping.keywords !== null && { keywords: cells[mapping.keywords] || '' }),
+      ...(mapping.category !== null && { category: cells[mapping.category] || '' }),
+      ...(mapping.tags !== null && { tags: cells[mapping.tags] || '' }),
+    }));
+
+  const handlePreview = async () => {
+    setWorking(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs-import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows: buildRows() }),
+      });
+      if (!res.ok) throw new Error(await readError(res, 'Failed to preview import'));
+      setPreview(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview import');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Invalid rows are left out; the rest are imported in one write
+  const handleCommit = async () => {
+    if (!preview) return;
+    setWorking(true);
+    setError(null);
+
+    const invalidIndexes = new Set(preview.invalid.map((r) => r.index));
+    const versions = Object.fromEntries(
+      preview.changes.filter((c) => c.pair).map((c) => [c.pair!.id, c.pair!.version])
+    );
+
+    try {
+      const res = await fetch('/api/qa-pairs-import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: buildRows().filter((_, i) => !invalidIndexes.has(i + 1)),
+          versions,
+          commit: true,
+        }),
+      });
+      if (!res.ok) {
+        // The library changed since the preview, which has to be run again
+        if (res.status === 409) setPreview(null);
+        throw new Error(await readError(res, 'Failed to import'));
+      }
+
+      const data = await res.json();
+      setMessage(data.message);
+      setPreview(null);
+      setDataRows([]);
+      setHeaders([]);
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const added = preview?.changes.filter((c) => c.action === 'add') || [];
+  const updated = preview?.changes.filter((c) => c.action === 'update') || [];
+  const unchanged = preview?.changes.filter((c) => c.action === 'unchanged') || [];
+  const sheetRow = (index: number) => dataRows[index - 1]?.sheetRow ?? index;
+
+  return (
+    <div className="p-6 card-dark rounded-xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white font-heading">Import / Export</h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => exportLibrary('xlsx')}
+            disabled={pairs.length === 0}
+            className="px-3 py-1.5 bg-white/5 text-gray-300 text-sm rounded-lg border border-white/10 hover:text-zenlytic-cyan disabled:opacity-50 transition-colors"
+          >
+            Export XLSX
+          </button>
+          <button
+            type="button"
+            onClick={() => exportLibrary('json')}
+            disabled={pairs.length === 0}
+            className="px-3 py-1.5 bg-white/5 text-gray-300 text-sm rounded-lg border border-white/10 hover:text-zenlytic-cyan disabled:opacity-50 transition-colors"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">
+          Import a CSV or Excel sheet with a header row. Rows are matched to existing pairs by question: new
+          questions are added as drafts, and changed answers go back through review.
+        </p>
+        <input
+          type="file"
+          accept=".xlsx,.xls,.csv"
+          onChange={handleFile}
+          className="text-sm text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-white/10 file:text-gray-200 hover:file:bg-white/20"
+        />
+      </div>
+
+      {headers.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300">
+            {fileName}: {dataRows.length} row{dataRows.length === 1 ? '' : 's'}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {IMPORT_FIELDS.map((field) => (
+              <label key={field.id} className="text-sm text-gray-400">
+                {field.label}
+                {field.required && <span className="text-red-400"> *</span>}
+                <select
+                  value={mapping[field.id] ?? ''}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field.id]: e.target.value === '' ? null : Number(e.target.value) });
+                    setPreview(null);
+                  }}
+                  className="mt-1 w-full px-2 py-1.5 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-white"
+                >
+                  <option value="">{field.required ? 'Select column' : 'Not in sheet'}</option>
+                  {headers.map((header, i) => (
+                    <option key={i} value={i}>
+                      {String.fromCharCode(65 + i)}: {header || '(no header)'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Keywords and tags are split on commas or semicolons, alternate phrasings on semicolons or new lines.
+            Fields without a column are left as they are on existing pairs.
+          </p>
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={working || mapping.question === null || mapping.answer === null}
+            className="px-4 py-2 bg-zenlytic-cyan/20 text-zenlytic-cyan text-sm font-medium rounded-lg border border-zenlytic-cyan/40 hover:bg-zenlytic-cyan/30 disabled:opacity-50 transition-all"
+          >
+            {working && !preview ? 'Checking...' : 'Preview Changes'}
+          </button>
+        </div>
+      )}
+
+      {preview && (
+        <div className="space-y-3 text-sm">
+          <p className="text-gray-300">
+            <span className="text-zenlytic-green">{added.length} new</span>,{' '}
+            <span className="text-yellow-400">{updated.length} changed</span>, {unchanged.length} unchanged
+            {preview.invalid.length > 0 && (
+              <>
+                , <span className="text-red-400">{preview.invalid.length} invalid (skipped)</span>
+              </>
+            )}
+          </p>
+
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {preview.invalid.map((r) => (
+              <div key={`invalid-${r.index}`} className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                <p className="text-gray-200">
+                  Row {sheetRow(r.index)}: {r.question || '(no question)'}
+                </p>
+                <p className="text-xs text-red-400">{r.errors.join(' ')}</p>
+              </div>
+            ))}
+            {added.map((c) => (
+              <div key={`add-${c.index}`} className="p-3 bg-zenlytic-green/5 border border-zenlytic-green/30 rounded-lg">
+                <p className="text-gray-200">
+                  <span className="text-xs text-zenlytic-green mr-2">New</span>
+                  {c.row.q}
+                </p>
+                <p className="text-gray-400 mt-1">{c.row.a}</p>
+                {c.similar && c.similar.length > 0 && (
+                  <p className="text-xs text-yellow-400 mt-1">
+                    Similar to: {c.similar.map((s) => `"${s.pair.q}"`).join(', ')}. Consider adding it there as an
+                    alternate phrasing instead.
+                  </p>
+                )}
+              </div>
+            ))}
+            {updated.map((c) => (
+              <div key={`update-${c.index}`} className="p-3 bg-yellow-500/5 border border-yellow-500/30 rounded-lg">
+                <p className="text-gray-200">
+                  <span className="text-xs text-yellow-400 mr-2">Changed</span>
+                  {c.pair!.q}
+                  {c.pair!.status === 'approved' && (
+                    <span className="ml-2 text-xs text-gray-500">(approved; goes back to draft if the answer changes)</span>
+                  )}
+                </p>
+                <p className="text-gray-400 mt-1">
+                  <Diff before={c.pair!.a} after={c.row.a} />
+                </p>
+                {c.row.keywords && c.row.keywords.join(', ') !== c.pair!.keywords.join(', ') && (
+                  <p className="text-xs text-gray-500 mt-1">Keywords: {c.row.keywords.join(', ') || 'none'}</p>
+                )}
+                {c.row.alternates && c.row.alternates.join('\n') !== (c.pair!.alternates || []).join('\n') && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Alternate phrasings: {c.row.alternates.join(' · ') || 'none'}
+                  </p>
+                )}
+                {c.row.category !== undefined && c.row.category !== (c.pair!.category || '') && (
+                  <p className="text-xs text-gray-500 mt-1">Category: {c.row.category || 'none'}</p>
+                )}
+                {c.row.tags && c.row.tags.join(', ') !== (c.pair!.tags || []).join(', ') && (
+                  <p className="text-xs text-gray-500 mt-1">Tags: {c.row.tags.join(', ') || 'none'}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={working || added.length + updated.length === 0}
+              className="px-4 py-2 bg-zenlytic-green text-white text-sm font-medium rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-all"
+            >
+              {working ? 'Importing...' : `Import ${added.length + updated.length} change${added.length + updated.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-zenlytic-green">{message}</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,558 @@
+import { useState, useId } from 'react';
+import { QAPairHistory } from './QAPairHistory';
+import { DuplicateWarning, type DuplicateMatch } from './DuplicateWarning';
+
+export type QAStatus = 'draft' | 'in_review' | 'approved' | 'retired';
+
+export interface QAPair {
+  id: string;
+  q: string;
+  a: string;
+  keywords: string[];
+  version: number;
+  createdBy?: string;
+  createdAt?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+  status: QAStatus;
+  reviewer?: string;
+  // Who submitted the pair for review; they can't approve it
+  submittedBy?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  // YYYY-MM-DD by which the answer must be re-checked
+  reviewBy?: string;
+  sourcePages?: string[];
+  // Topic the pair is filed under (e.g. Encryption, HR)
+  category?: string;
+  tags?: string[];
+  // Other phrasings of the question, merged in from near-duplicates
+  alternates?: string[];
+}
+
+export const STATUS_LABELS: Record<QAStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  retired: 'Retired',
+};
+
+const STATUS_BADGE_CLASSES: Record<QAStatus, string> = {
+  draft: 'bg-white/5 text-gray-300 border-white/10',
+  in_review: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  approved: 'bg-zenlytic-green/10 text-zenlytic-green border-zenlytic-green/30',
+  retired: 'bg-red-500/10 text-red-400 border-red-500/30',
+};
+
+export interface QAPairChanges {
+  question?: string;
+  answer?: string;
+  keywords?: string[];
+  alternates?: string[];
+  // Empty string clears the category or date
+  category?: string;
+  tags?: string[];
+  reviewBy?: string;
+  sourcePages?: string[];
+}
+
+// Offered when filing a pair, alongside categories already in use
+export const SUGGESTED_CATEGORIES = [
+  'Access Control',
+  'BCP',
+  'Compliance',
+  'Encryption',
+  'HR',
+  'Incident Response',
+  'Infrastructure',
+  'Legal',
+  'Privacy',
+  'Vendor Management',
+];
+
+// false if the save failed, or the pairs a reworded question is too close to
+export type QASaveResult = boolean | { duplicates: DuplicateMatch[] };
+
+// Approved answers due for review within this many days are listed as expiring
+export const EXPIRING_SOON_DAYS = 30;
+
+/**
+ * Whole days until a pair's review-by date (negative once it has passed),
+ * or null if it has none
+ */
+export function daysUntilReview(pair: QAPair): number | null {
+  if (!pair.reviewBy) return null;
+  const today = new Date().toISOString().slice(0, 10);
+  return Math.round((Date.parse(pair.reviewBy) - Date.parse(today)) / (24 * 60 * 60 * 1000));
+}
+
+function ReviewByLabel({ pair }: { pair: QAPair }) {
+  const days = daysUntilReview(pair);
+  if (days === null) return null;
+
+  const className =
+    days < 0 ? 'text-red-400' : days <= EXPIRING_SOON_DAYS ? 'text-yellow-400' : 'text-gray-500';
+  const note = days < 0 ? ' (overdue)' : days <= EXPIRING_SOON_DAYS ? ` (in ${days} day${days === 1 ? '' : 's'})` : '';
+  return (
+    <span className={className}>
+      {' · '}review by {pair.reviewBy}
+      {note}
+    </span>
+  );
+}
+
+function SourcePageLink({ page }: { page: string }) {
+  return /^https?:\/\//.test(page) ? (
+    <a href={page} target="_blank" rel="noreferrer" className="text-zenlytic-cyan hover:underline break-all">
+      {page}
+    </a>
+  ) : (
+    <span className="text-gray-400">{page}</span>
+  );
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent';
+
+/**
+ * Keyword chips with remove buttons and an input that adds on Enter or
+ * comma. Entries that may contain commas (question phrasings) pass
+ * splitOnComma={false} and are added on Enter only.
+ */
+export function KeywordEditor({
+  keywords,
+  onChange,
+  placeholder = 'ISO, ISO 27001, certification',
+  splitOnComma = true,
+}: {
+  keywords: string[];
+  onChange: (keywords: string[]) => void;
+  placeholder?: string;
+  splitOnComma?: boolean;
+}) {
+  const [draft, setDraft] = useState('');
+
+  const addDraft = () => {
+    const added = (splitOnComma ? draft.split(',') : [draft]).map((k) => k.trim()).filter(Boolean);
+    if (added.length > 0) onChange([...new Set([...keywords, ...added])]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg">
+      {keywords.map((kw) => (
+        <span
+          key={kw}
+          className="flex items-center gap-1 text-xs px-2 py-0.5 bg-white/5 text-gray-300 rounded border border-white/10"
+        >
+          {kw}
+          <button
+            type="button"
+            onClick={() => onChange(keywords.filter((k) => k !== kw))}
+            className="text-gray-500 hover:text-red-400"
+            aria-label={`Remove ${kw}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || (splitOnComma && e.key === ',')) {
+            e.preventDefault();
+            addDraft();
+          } else if (e.key === 'Backspace' && !draft && keywords.length > 0) {
+            onChange(keywords.slice(0, -1));
+          }
+        }}
+        onBlur={addDraft}
+        placeholder={keywords.length === 0 ? placeholder : 'Add another'}
+        className="flex-1 min-w-[8rem] px-1 py-0.5 bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none"
+      />
+    </div>
+  );
+}
+
+/**
+ * Free-text category with the suggested and existing categories offered
+ */
+export function CategoryInput({
+  value,
+  onChange,
+  categories,
+  className = inputClassName,
+}: {
+  value: string;
+  onChange: (category: string) => void;
+  categories: string[];
+  className?: string;
+}) {
+  const listId = useId();
+  return (
+    <>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        list={listId}
+        placeholder="Category, e.g. Encryption"
+        className={className}
+      />
+      <datalist id={listId}>
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+    </>
+  );
+}
+
+/**
+ * One pair in the answer library: read-only with edit/review/delete
+ * actions, or an inline editor
+ */
+export function QAPairCard({
+  pair,
+  categories,
+  currentUserEmail,
+  selected,
+  onToggleSelect,
+  onSave,
+  onMerge,
+  onSetStatus,
+  onDelete,
+  onRevert,
+}: {
+  pair: QAPair;
+  // Offered in the category field
+  categories: string[];
+  currentUserEmail?: string;
+  selected: boolean;
+  onToggleSelect: () => void;
+  // Resolves true when the edit was saved, or with the pairs a reworded question duplicates
+  onSave: (pair: QAPair, changes: QAPairChanges, force?: boolean) => Promise<QASaveResult>;
+  // Merge this pair into another as an alternate phrasing; resolves true when merged
+  onMerge: (pair: QAPair, target: QAPair) => Promise<boolean>;
+  // Resolves true when the status changed
+  onSetStatus: (pair: QAPair, status: QAStatus, reviewer?: string) => Promise<boolean>;
+  onDelete: (pair: QAPair) => void;
+  // Resolves true when the pair was reverted
+  onRevert: (pair: QAPair, toVersion: number) => Promise<boolean>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null);
+  const [question, setQuestion] = useState(pair.q);
+  const [answer, setAnswer] = useState(pair.a);
+  const [keywords, setKeywords] = useState(pair.keywords);
+  const [alternates, setAlternates] = useState(pair.alternates || []);
+  const [category, setCategory] = useState(pair.category || '');
+  const [tags, setTags] = useState(pair.tags || []);
+  const [reviewBy, setReviewBy] = useState(pair.reviewBy || '');
+  const [sourcePages, setSourcePages] = useState(pair.sourcePages || []);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewer, setReviewer] = useState(pair.reviewer || '');
+  const [changingStatus, setChangingStatus] = useState(false);
+
+  const isReviewer = !!currentUserEmail && currentUserEmail.toLowerCase() === pair.reviewer?.toLowerCase();
+
+  const changeStatus = async (status: QAStatus, newReviewer?: string) => {
+    setChangingStatus(true);
+    const changed = await onSetStatus(pair, status, newReviewer);
+    setChangingStatus(false);
+    if (changed) setSubmitting(false);
+  };
+
+  const startEditing = () => {
+    setQuestion(pair.q);
+    setAnswer(pair.a);
+    setKeywords(pair.keywords);
+    setAlternates(pair.alternates || []);
+    setCategory(pair.category || '');
+    setTags(pair.tags || []);
+    setReviewBy(pair.reviewBy || '');
+    setSourcePages(pair.sourcePages || []);
+    setDuplicates(null);
+    setEditing(true);
+  };
+
+  const handleSave = async (force = false) => {
+    setSaving(true);
+    const result = await onSave(
+      pair,
+      { question, answer, keywords, alternates, category, tags, reviewBy, sourcePages },
+      force
+    );
+    setSaving(false);
+    if (result === true) setEditing(false);
+    setDuplicates(typeof result === 'object' ? result.duplicates : null);
+  };
+
+  if (editing) {
+    return (
+      <div className="p-4 card-dark rounded-lg space-y-3 border border-zenlytic-cyan/30">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          className={inputClassName}
+        />
+        <KeywordEditor
+          keywords={alternates}
+          onChange={setAlternates}
+          placeholder="Other ways this question is asked (Enter to add)"
+          splitOnComma={false}
+        />
+        <textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          className={`${inputClassName} resize-none`}
+          rows={3}
+        />
+        <KeywordEditor keywords={keywords} onChange={setKeywords} />
+        <div className="grid md:grid-cols-2 gap-3">
+          <CategoryInput value={category} onChange={setCategory} categories={categories} />
+          <KeywordEditor keywords={tags} onChange={setTags} placeholder="Tags, e.g. soc2, customer-facing" />
+        </div>
+        <KeywordEditor
+          keywords={sourcePages}
+          onChange={setSourcePages}
+          placeholder="Source pages (Notion page titles or URLs)"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Review by
+          <input
+            type="date"
+            value={reviewBy}
+            onChange={(e) => setReviewBy(e.target.value)}
+            className="px-2 py-1 bg-zenlytic-dark-tertiary border border-white/10 rounded text-white focus:ring-1 focus:ring-zenlytic-cyan focus:border-transparent"
+          />
+        </label>
+        {pair.status === 'approved' && (
+          <p className="text-xs text-yellow-400">
+            Changing the question, answer or keywords sends this answer back to draft; it stops being used until
+            it is approved again. Alternate phrasings, category, tags, the review-by date and sources can be
+            changed without re-approval.
+          </p>
+        )}
+        {duplicates ? (
+          <DuplicateWarning
+            duplicates={duplicates}
+            answer={answer}
+            mergeLabel="Merge into this pair"
+            onMerge={(target) => onMerge(pair, target)}
+            onSaveAnyway={() => handleSave(true)}
+            onCancel={() => setDuplicates(null)}
+          />
+        ) : (
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSave()}
+              disabled={saving || !question.trim() || !answer.trim()}
+              className="px-4 py-2 bg-zenlytic-green text-white text-sm font-medium rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-all"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-4 card-dark rounded-lg flex gap-3 ${selected ? 'border border-zenlytic-cyan/40' : ''}`}>
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={onToggleSelect}
+        className="mt-1 accent-zenlytic-cyan"
+        aria-label="Select pair"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start gap-2 mb-2">
+          <span className={`shrink-0 text-xs px-2 py-0.5 rounded border ${STATUS_BADGE_CLASSES[pair.status]}`}>
+            {STATUS_LABELS[pair.status]}
+          </span>
+          {pair.category && (
+            <span className="shrink-0 text-xs px-2 py-0.5 rounded border bg-white/5 text-gray-300 border-white/10">
+              {pair.category}
+            </span>
+          )}
+          <p className="text-sm font-medium text-white">
+            Q: {pair.q}
+          </p>
+        </div>
+        {pair.alternates && pair.alternates.length > 0 && (
+          <p className="text-xs text-gray-500 mb-2">Also asked as: {pair.alternates.join(' · ')}</p>
+        )}
+        <p className="text-sm text-gray-300 mb-2">A: {pair.a}</p>
+        {((pair.tags?.length ?? 0) > 0 || pair.keywords.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {pair.tags?.map((tag) => (
+              <span
+                key={`tag-${tag}`}
+                className="text-xs px-2 py-0.5 bg-zenlytic-cyan/10 text-zenlytic-cyan rounded border border-zenlytic-cyan/30"
+              >
+                #{tag}
+              </span>
+            ))}
+            {pair.keywords.map((kw, i) => (
+              <span
+                key={i}
+                className="text-xs px-2 py-0.5 bg-white/5 text-gray-400 rounded border border-white/10"
+              >
+                {kw}
+              </span>
+            ))}
+          </div>
+        )}
+        <p className="mt-2 text-xs text-gray-500">
+          v{pair.version}
+          {pair.updatedBy && ` · last changed by ${pair.updatedBy}`}
+          {pair.updatedAt && ` on ${new Date(pair.updatedAt).toLocaleString()}`}
+          {pair.status === 'in_review' && pair.submittedBy && ` · submitted by ${pair.submittedBy}`}
+          {pair.status === 'in_review' && pair.reviewer && ` · awaiting review by ${pair.reviewer}`}
+          {pair.status === 'approved' && pair.approvedBy && ` · approved by ${pair.approvedBy}`}
+          <ReviewByLabel pair={pair} />
+        </p>
+        {pair.sourcePages && pair.sourcePages.length > 0 && (
+          <p className="mt-1 text-xs text-gray-500">
+            Based on:{' '}
+            {pair.sourcePages.map((page, i) => (
+              <span key={page}>
+                {i > 0 && ', '}
+                <SourcePageLink page={page} />
+              </span>
+            ))}
+          </p>
+        )}
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+          {pair.status === 'draft' && !submitting && (
+            <button
+              type="button"
+              onClick={() => setSubmitting(true)}
+              className="px-2 py-1 bg-white/5 text-gray-300 rounded border border-white/10 hover:text-zenlytic-cyan transition-colors"
+            >
+              Submit for review
+            </button>
+          )}
+          {submitting && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                changeStatus('in_review', reviewer.trim());
+              }}
+              className="flex items-center gap-2"
+            >
+              <input
+                type="email"
+                value={reviewer}
+                onChange={(e) => setReviewer(e.target.value)}
+                placeholder="reviewer@zenlytic.com"
+                className="px-2 py-1 bg-zenlytic-dark-tertiary border border-white/10 rounded text-white placeholder-gray-500 focus:ring-1 focus:ring-zenlytic-cyan focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={changingStatus || !reviewer.trim()}
+                className="px-2 py-1 bg-zenlytic-green text-white rounded hover:bg-opacity-90 disabled:opacity-50 transition-all"
+              >
+                Submit
+              </button>
+              <button
+                type="button"
+                onClick={() => setSubmitting(false)}
+                className="px-2 py-1 text-gray-400 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+          {pair.status === 'in_review' && isReviewer && (
+            <button
+              type="button"
+              onClick={() => changeStatus('approved')}
+              disabled={changingStatus}
+              className="px-2 py-1 bg-zenlytic-green text-white rounded hover:bg-opacity-90 disabled:opacity-50 transition-all"
+            >
+              Approve
+            </button>
+          )}
+          {pair.status === 'in_review' && (
+            <button
+              type="button"
+              onClick={() => changeStatus('draft')}
+              disabled={changingStatus}
+              className="px-2 py-1 bg-white/5 text-gray-300 rounded border border-white/10 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              {isReviewer ? 'Request changes' : 'Withdraw'}
+            </button>
+          )}
+          {pair.status !== 'retired' && (
+            <button
+              type="button"
+              onClick={() => changeStatus('retired')}
+              disabled={changingStatus}
+              className="px-2 py-1 text-gray-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+            >
+              Retire
+            </button>
+          )}
+          {pair.status === 'retired' && (
+            <button
+              type="button"
+              onClick={() => changeStatus('draft')}
+              disabled={changingStatus}
+              className="px-2 py-1 bg-white/5 text-gray-300 rounded border border-white/10 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              Restore as draft
+            </button>
+          )}
+        </div>
+        {showHistory && (
+          <div className="mt-3">
+            <QAPairHistory
+              pairId={pair.id}
+              currentVersion={pair.version}
+              onRevert={(toVersion) => onRevert(pair, toVersion)}
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex flex-col gap-1 text-sm">
+        <button
+          type="button"
+          onClick={startEditing}
+          className="px-2 py-1 text-gray-400 hover:text-zenlytic-cyan transition-colors"
+        >
+          Edit
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowHistory(!showHistory)}
+          className="px-2 py-1 text-gray-400 hover:text-zenlytic-cyan transition-colors"
+        >
+          {showHistory ? 'Hide history' : 'History'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete(pair)}
+          className="px-2 py-1 text-gray-400 hover:text-red-400 transition-colors"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { STATUS_LABELS, type QAStatus } from './QAPairCard';
+
+interface QAPairRevision {
+  version: number;
+  q: string;
+  a: string;
+  keywords: string[];
+  status?: QAStatus;
+  reviewer?: string;
+  reviewBy?: string;
+  sourcePages?: string[];
+  category?: string;
+  tags?: string[];
+  alternates?: string[];
+  action: 'created' | 'updated' | 'reverted' | 'status_changed' | 'deleted';
+  author: string | null;
+  timestamp: string | null;
+  revertedFrom?: number;
+}
+
+type DiffPart = { text: string; change: 'same' | 'added' | 'removed' };
+
+/**
+ * Word-level diff (longest common subsequence over words and whitespace)
+ */
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffPart['change']) => {
+    const last = parts[parts.length - 1];
+    if (last?.change === change) last.text += text;
+    else parts.push({ text, change });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+}
+
+export function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <span>
+      {diffWords(before, after).map((part, i) =>
+        part.change === 'same' ? (
+          <span key={i}>{part.text}</span>
+        ) : part.change === 'added' ? (
+          <ins key={i} className="no-underline bg-zenlytic-green/20 text-zenlytic-green rounded-sm">
+            {part.text}
+          </ins>
+        ) : (
+          <del key={i} className="bg-red-500/20 text-red-400 rounded-sm">
+            {part.text}
+          </del>
+        )
+      )}
+    </span>
+  );
+}
+
+function describeRevision(revision: QAPairRevision): string {
+  const who = revision.author || 'unknown author';
+  const when = revision.timestamp ? new Date(revision.timestamp).toLocaleString() : 'before history was kept';
+  const what =
+    revision.action === 'reverted'
+      ? `reverted to v${revision.revertedFrom}`
+      : revision.action === 'status_changed' && revision.status
+        ? `moved to ${STATUS_LABELS[revision.status].toLowerCase()}${
+            revision.status === 'in_review' && revision.reviewer ? ` (reviewer ${revision.reviewer})` : ''
+          }`
+        : revision.action;
+  return `v${revision.version} · ${what} by ${who} · ${when}`;
+}
+
+/**
+ * Versions of one Q&A pair, newest first, each diffed against the version
+ * before it, with a revert button on earlier versions
+ */
+export function QAPairHistory({
+  pairId,
+  currentVersion,
+  onRevert,
+}: {
+  pairId: string;
+  currentVersion: number;
+  onRevert: (toVersion: number) => Promise<boolean>;
+}) {
+  const [revisions, setRevisions] = useState<QAPairRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reverting, setReverting] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/qa-pair-history?id=${encodeURIComponent(pairId)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to fetch');
+        return res.json();
+      })
+      .then((data) => setRevisions(data.revisions))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'));
+  }, [pairId, currentVersion]);
+
+  const handleRevert = async (toVersion: number) => {
+    if (!window.confirm(`Revert to version ${toVersion}? This saves a new version.`)) return;
+    setReverting(toVersion);
+    await onRevert(toVersion);
+    setReverting(null);
+  };
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!revisions) return <p className="text-sm text-gray-500">Loading history...</p>;
+
+  return (
+    <ol className="space-y-3">
+      {revisions
+        .map((revision, i) => ({ revision, previous: revisions[i - 1] }))
+        .reverse()
+        .map(({ revision, previous }) => {
+          const removedKeywords = previous ? previous.keywords.filter((k) => !revision.keywords.includes(k)) : [];
+          const addedKeywords = previous ? revision.keywords.filter((k) => !previous.keywords.includes(k)) : [];
+          const reviewByChanged = !!previous && (previous.reviewBy || '') !== (revision.reviewBy || '');
+          const sourcesChanged =
+            !!previous && (previous.sourcePages || []).join('\n') !== (revision.sourcePages || []).join('\n');
+          const addedAlternates = previous
+            ? (revision.alternates || []).filter((q) => !(previous.alternates || []).includes(q))
+            : [];
+          const removedAlternates = previous
+            ? (previous.alternates || []).filter((q) => !(revision.alternates || []).includes(q))
+            : [];
+          const categoryChanged = !!previous && (previous.category || '') !== (revision.category || '');
+          const tagsChanged = !!previous && (previous.tags || []).join('\n') !== (revision.tags || []).join('\n');
+
+          return (
+            <li key={revision.version} className="p-3 bg-white/5 rounded-lg border border-white/10 text-sm">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-xs text-gray-400">{describeRevision(revision)}</span>
+                {revision.version === currentVersion ? (
+                  <span className="text-xs text-zenlytic-cyan">current</span>
+                ) : (
+                  revision.action !== 'deleted' && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevert(revision.version)}
+                      disabled={reverting !== null}
+                      className="text-xs text-gray-400 hover:text-zenlytic-cyan disabled:opacity-50 transition-colors"
+                    >
+                      {reverting === revision.version ? 'Reverting...' : 'Revert to this'}
+                    </button>
+                  )
+                )}
+              </div>
+              <p className="text-gray-200 mb-1">
+                Q: {previous ? <Diff before={previous.q} after={revision.q} /> : revision.q}
+              </p>
+              <p className="text-gray-300">
+                A: {previous ? <Diff before={previous.a} after={revision.a} /> : revision.a}
+              </p>
+              {(addedKeywords.length > 0 || removedKeywords.length > 0) && (
+                <p className="mt-1 text-xs">
+                  {addedKeywords.map((k) => (
+                    <span key={`+${k}`} className="mr-2 text-zenlytic-green">+{k}</span>
+                  ))}
+                  {removedKeywords.map((k) => (
+                    <span key={`-${k}`} className="mr-2 text-red-400 line-through">{k}</span>
+                  ))}
+                </p>
+              )}
+              {previous && reviewByChanged && (
+                <p className="mt-1 text-xs text-gray-400">
+                  Review by: {previous.reviewBy || 'none'} → {revision.reviewBy || 'none'}
+                </p>
+              )}
+              {addedAlternates.length > 0 && (
+                <p className="mt-1 text-xs text-gray-400">Also asked as: {addedAlternates.join(' · ')}</p>
+              )}
+              {removedAlternates.length > 0 && (
+                <p className="mt-1 text-xs text-red-400 line-through">{removedAlternates.join(' · ')}</p>
+              )}
+              {previous && categoryChanged && (
+                <p className="mt-1 text-xs text-gray-400">
+                  Category: {previous.category || 'none'} → {revision.category || 'none'}
+                </p>
+              )}
+              {tagsChanged && (
+                <p className="mt-1 text-xs text-gray-400">Tags: {(revision.tags || []).join(', ') || 'none'}</p>
+              )}
+              {sourcesChanged && (
+                <p className="mt-1 text-xs text-gray-400">
+                  Sources: {(revision.sourcePages || []).join(', ') || 'none'}
+                </p>
+              )}
+            </li>
+          );
+        })}
+    </ol>
+  );
+}
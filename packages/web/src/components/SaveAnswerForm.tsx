@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { KeywordEditor, type QAPair } from './QAPairCard';
+import { DuplicateWarning, type DuplicateMatch } from './DuplicateWarning';
+
+const inputClassName =
+  'w-full px-3 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent';
+
+/**
+ * Turns a generated answer into a draft in the answer library: question,
+ * answer, citations and suggested keywords are pre-filled for the user to
+ * tidy up before it is saved
+ */
+export function SaveAnswerForm({
+  question,
+  answer,
+  citations,
+  onClose,
+}: {
+  question: string;
+  answer: string;
+  citations: string[];
+  onClose: () => void;
+}) {
+  const [q, setQ] = useState(question);
+  const [a, setA] = useState(answer);
+  const [keywords, setKeywords] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Set once saved; mergedInto is the pair the question was added to instead
+  const [saved, setSaved] = useState<{ mergedInto?: QAPair } | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/qa-pair-suggest', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, answer, citations }),
+    })
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to suggest keywords');
+        return res.json();
+      })
+      .then((data) => {
+        setQ(data.q);
+        setA(data.a);
+        setKeywords(data.keywords);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to suggest keywords'))
+      .finally(() => setLoading(false));
+  }, [question, answer, citations]);
+
+  // Posts the draft, or with mergeInto adds the question to an existing pair
+  const post = async (body: Record<string, unknown>): Promise<QAPair | null> => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 409 && data.duplicates) {
+        setDuplicates(data.duplicates);
+        return null;
+      }
+      if (!res.ok) {
+        const message = data.error || 'Failed to save';
+        throw new Error(Array.isArray(data.details) ? `${message}: ${data.details.join(' ')}` : message);
+      }
+
+      return data.pair;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (force = false) => {
+    if (await post({ question: q, answer: a, keywords, force })) setSaved({});
+  };
+
+  const handleMerge = async (target: QAPair): Promise<boolean> => {
+    const pair = await post({ question: q, mergeInto: { id: target.id, version: target.version } });
+    if (pair) setSaved({ mergedInto: pair });
+    return !!pair;
+  };
+
+  if (saved) {
+    return (
+      <div className="p-4 bg-zenlytic-green/10 border border-zenlytic-green/30 rounded-lg flex items-center justify-between gap-2">
+        <p className="text-sm text-zenlytic-green">
+          {saved.mergedInto
+            ? `Added as another phrasing of "${saved.mergedInto.q}".`
+            : 'Saved as a draft. Submit it for review on the Admin page to start using it.'}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white/5 rounded-lg border border-zenlytic-cyan/30 space-y-3">
+      <h4 className="text-sm font-medium text-gray-300">Save as approved answer</h4>
+      {loading ? (
+        <p className="text-sm text-gray-500">Preparing draft...</p>
+      ) : (
+        <>
+          <input
+            type="text"
+            value={q}
+            onChange={(e) => {
+              setQ(e.target.value);
+              setDuplicates(null);
+            }}
+            className={inputClassName}
+          />
+          <textarea
+            value={a}
+            onChange={(e) => setA(e.target.value)}
+            className={`${inputClassName} resize-none`}
+            rows={5}
+          />
+          <KeywordEditor keywords={keywords} onChange={setKeywords} />
+          <p className="text-xs text-gray-500">
+            Saved as a draft; it is used for answers once it has been reviewed and approved.
+          </p>
+        </>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {duplicates ? (
+        <DuplicateWarning
+          duplicates={duplicates}
+          answer={a}
+          onMerge={handleMerge}
+          onSaveAnyway={() => handleSave(true)}
+          onCancel={() => setDuplicates(null)}
+        />
+      ) : (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSave()}
+            disabled={loading || saving || !q.trim() || !a.trim()}
+            className="px-4 py-2 bg-zenlytic-green text-white text-sm font-medium rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-all"
+          >
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
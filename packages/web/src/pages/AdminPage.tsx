@@ -1,22 +1,65 @@
 import { useState, useEffect } from 'react';
+import { KnowledgeBaseStatus } from '../components/KnowledgeBaseStatus';
+import { ExpiringAnswers } from '../components/ExpiringAnswers';
+import { QAImportExport } from '../components/QAImportExport';
+import { DuplicateWarning, type DuplicateMatch } from '../components/DuplicateWarning';
+import {
+  QAPairCard,
+  KeywordEditor,
+  CategoryInput,
+  STATUS_LABELS,
+  SUGGESTED_CATEGORIES,
+  type QAPair,
+  type QAPairChanges,
+  type QASaveResult,
+  type QAStatus,
+} from '../components/QAPairCard';
 
-interface QAPair {
-  id: string;
-  q: string;
-  a: string;
-  keywords: string[];
+type LibraryFilter = 'review' | QAStatus | 'all';
+
+// Category filter value for pairs without a category
+const UNCATEGORIZED = '__uncategorized__';
+
+// Drafts and pairs in review make up the review queue
+const FILTERS: Array<{ id: LibraryFilter; label: string; matches: (pair: QAPair) => boolean }> = [
+  { id: 'review', label: 'Review queue', matches: (p) => p.status === 'draft' || p.status === 'in_review' },
+  { id: 'approved', label: STATUS_LABELS.approved, matches: (p) => p.status === 'approved' },
+  { id: 'retired', label: STATUS_LABELS.retired, matches: (p) => p.status === 'retired' },
+  { id: 'all', label: 'All', matches: () => true },
+];
+
+/**
+ * Error message from a failed API response, including validation details
+ */
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  const message = data.error || fallback;
+  return Array.isArray(data.details) ? `${message}: ${data.details.join(' ')}` : message;
 }
 
-export function AdminPage() {
+export function AdminPage({ currentUserEmail }: { currentUserEmail?: string }) {
   const [pairs, setPairs] = useState<QAPair[]>([]);
+  const [filter, setFilter] = useState<LibraryFilter>('review');
+  // '' for every category
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [groupByCategory, setGroupByCategory] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // New pair form
   const [newQuestion, setNewQuestion] = useState('');
   const [newAnswer, setNewAnswer] = useState('');
-  const [newKeywords, setNewKeywords] = useState('');
+  const [newKeywords, setNewKeywords] = useState<string[]>([]);
+  const [newCategory, setNewCategory] = useState('');
+  const [newTags, setNewTags] = useState<string[]>([]);
+  const [newSourcePages, setNewSourcePages] = useState<string[]>([]);
+  const [newReviewBy, setNewReviewBy] = useState('');
   const [saving, setSaving] = useState(false);
+  const [newDuplicates, setNewDuplicates] = useState<DuplicateMatch[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [deleting, setDeleting] = useState(false);
+  const [bulkReviewBy, setBulkReviewBy] = useState('');
+  const [settingReviewBy, setSettingReviewBy] = useState(false);
 
   useEffect(() => {
     fetchPairs();
@@ -35,8 +78,18 @@ export function AdminPage() {
     }
   };
 
-  const handleAddPair = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const resetAddForm = () => {
+    setNewQuestion('');
+    setNewAnswer('');
+    setNewKeywords([]);
+    setNewCategory('');
+    setNewTags([]);
+    setNewSourcePages([]);
+    setNewReviewBy('');
+    setNewDuplicates(null);
+  };
+
+  const addPair = async (force: boolean) => {
     if (!newQuestion.trim() || !newAnswer.trim()) return;
 
     setSaving(true);
@@ -49,17 +102,27 @@ export function AdminPage() {
         body: JSON.stringify({
           question: newQuestion,
           answer: newAnswer,
-          keywords: newKeywords.split(',').map((k) => k.trim()).filter(Boolean),
+          keywords: newKeywords,
+          category: newCategory,
+          tags: newTags,
+          sourcePages: newSourcePages,
+          reviewBy: newReviewBy || undefined,
+          force,
         }),
       });
 
-      if (!res.ok) throw new Error('Failed to save');
+      if (res.status === 409) {
+        const data = await res.clone().json().catch(() => ({}));
+        if (data.duplicates) {
+          setNewDuplicates(data.duplicates);
+          return;
+        }
+      }
+      if (!res.ok) throw new Error(await readError(res, 'Failed to save'));
 
       const data = await res.json();
       setPairs([...pairs, data.pair]);
-      setNewQuestion('');
-      setNewAnswer('');
-      setNewKeywords('');
+      resetAddForm();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save Q&A pair');
     } finally {
@@ -67,20 +130,255 @@ export function AdminPage() {
     }
   };
 
+  const handleAddPair = (e: React.FormEvent) => {
+    e.preventDefault();
+    addPair(false);
+  };
+
+  // The proposed question becomes an alternate phrasing of the existing pair
+  const handleMergeNewPair = async (target: QAPair): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: newQuestion, mergeInto: { id: target.id, version: target.version } }),
+      });
+
+      if (!res.ok) {
+        await handleWriteFailure(res, 'Failed to merge');
+        return false;
+      }
+
+      const data = await res.json();
+      replacePair(data.pair);
+      resetAddForm();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge Q&A pair');
+      return false;
+    }
+  };
+
+  const replacePair = (updated: QAPair) => {
+    setPairs((current) => current.map((p) => (p.id === updated.id ? updated : p)));
+  };
+
+  const removePairs = (ids: string[]) => {
+    setPairs((current) => current.filter((p) => !ids.includes(p.id)));
+    setSelectedIds((current) => new Set([...current].filter((id) => !ids.includes(id))));
+  };
+
+  // A 409/404 means someone else changed the library; show their version
+  const handleWriteFailure = async (res: Response, fallback: string) => {
+    const data = await res.clone().json().catch(() => ({}));
+    if (res.status === 409 && data.current) replacePair(data.current);
+    if (res.status === 404 && data.id) removePairs([data.id]);
+    setError(await readError(res, fallback));
+  };
+
+  const handleUpdatePair = async (pair: QAPair, changes: QAPairChanges, force = false): Promise<QASaveResult> => {
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: pair.id, version: pair.version, ...changes, force }),
+      });
+
+      if (res.status === 409) {
+        const data = await res.clone().json().catch(() => ({}));
+        if (data.duplicates) return { duplicates: data.duplicates };
+      }
+      if (!res.ok) {
+        await handleWriteFailure(res, 'Failed to update');
+        return false;
+      }
+
+      const data = await res.json();
+      replacePair(data.pair);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update Q&A pair');
+      return false;
+    }
+  };
+
+  // The pair is merged into the target as an alternate phrasing and deleted
+  const handleMergePair = async (pair: QAPair, target: QAPair): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: pair.id,
+          version: pair.version,
+          mergeInto: { id: target.id, version: target.version },
+        }),
+      });
+
+      if (!res.ok) {
+        await handleWriteFailure(res, 'Failed to merge');
+        return false;
+      }
+
+      const data = await res.json();
+      replacePair(data.pair);
+      removePairs([data.deleted]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge Q&A pairs');
+      return false;
+    }
+  };
+
+  const handleSetStatus = async (pair: QAPair, status: QAStatus, reviewer?: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: pair.id, version: pair.version, status, reviewer }),
+      });
+
+      if (!res.ok) {
+        await handleWriteFailure(res, 'Failed to change status');
+        return false;
+      }
+
+      const data = await res.json();
+      replacePair(data.pair);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change status');
+      return false;
+    }
+  };
+
+  const handleRevertPair = async (pair: QAPair, toVersion: number): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pair-history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: pair.id, version: pair.version, toVersion }),
+      });
+
+      if (!res.ok) {
+        await handleWriteFailure(res, 'Failed to revert');
+        return false;
+      }
+
+      const data = await res.json();
+      replacePair(data.pair);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert Q&A pair');
+      return false;
+    }
+  };
+
+  const deletePairs = async (targets: QAPair[]) => {
+    setDeleting(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/qa-pairs', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pairs: targets.map((p) => ({ id: p.id, version: p.version })) }),
+      });
+
+      if (!res.ok) {
+        await handleWriteFailure(res, 'Failed to delete');
+        return;
+      }
+
+      const data = await res.json();
+      removePairs(data.deleted);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete Q&A pairs');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  // One request per pair, so a conflict on one doesn't block the rest
+  const handleSetReviewBySelected = async () => {
+    const targets = pairs.filter((p) => selectedIds.has(p.id));
+    if (targets.length === 0 || !bulkReviewBy) return;
+
+    setSettingReviewBy(true);
+    for (const pair of targets) {
+      await handleUpdatePair(pair, { reviewBy: bulkReviewBy });
+    }
+    setSettingReviewBy(false);
+  };
+
+  const handleDeletePair = (pair: QAPair) => {
+    if (window.confirm(`Delete "${pair.q}"?`)) deletePairs([pair]);
+  };
+
+  const handleDeleteSelected = () => {
+    const targets = pairs.filter((p) => selectedIds.has(p.id));
+    if (targets.length > 0 && window.confirm(`Delete ${targets.length} selected Q&A pair(s)?`)) {
+      deletePairs(targets);
+    }
+  };
+
+  const activeFilter = FILTERS.find((f) => f.id === filter)!;
+  const usedCategories = [...new Set(pairs.flatMap((p) => (p.category ? [p.category] : [])))].sort();
+  const categories = [...new Set([...SUGGESTED_CATEGORIES, ...usedCategories])].sort();
+  const matchesCategory = (pair: QAPair) =>
+    !categoryFilter || (categoryFilter === UNCATEGORIZED ? !pair.category : pair.category === categoryFilter);
+  const visiblePairs = pairs.filter((p) => activeFilter.matches(p) && matchesCategory(p));
+
+  // One untitled group unless grouping by category; uncategorized pairs come last
+  const groups: Array<{ category: string | null; pairs: QAPair[] }> = groupByCategory
+    ? [
+        ...usedCategories.map((category) => ({
+          category,
+          pairs: visiblePairs.filter((p) => p.category === category),
+        })),
+        { category: 'Uncategorized', pairs: visiblePairs.filter((p) => !p.category) },
+      ].filter((group) => group.pairs.length > 0)
+    : [{ category: null, pairs: visiblePairs }];
+  const awaitingMyReview = pairs.filter(
+    (p) => p.status === 'in_review' && !!currentUserEmail && p.reviewer?.toLowerCase() === currentUserEmail.toLowerCase()
+  ).length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-2xl font-bold text-white font-heading">Admin</h1>
         <p className="text-gray-400 mt-1">
-          Manage approved Q&A pairs and knowledge base.
+          Propose, review and manage approved answers, and check the knowledge base.
         </p>
       </div>
 
       {/* Add new pair */}
       <div className="p-6 card-dark rounded-xl">
         <h2 className="text-lg font-semibold text-white font-heading mb-4">
-          Add Approved Q&A Pair
+          Propose a Q&A Pair
         </h2>
+        <p className="text-sm text-gray-400 -mt-2 mb-4">
+          New pairs start as drafts. Claude only uses them once their reviewer approves them.
+        </p>
         <form onSubmit={handleAddPair} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-1">
@@ -89,7 +387,10 @@ export function AdminPage() {
             <input
               type="text"
               value={newQuestion}
-              onChange={(e) => setNewQuestion(e.target.value)}
+              onChange={(e) => {
+                setNewQuestion(e.target.value);
+                setNewDuplicates(null);
+              }}
               placeholder="e.g., Does Zenlytic have ISO 27001 certification?"
               className="w-full px-4 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent"
             />
@@ -97,7 +398,7 @@ export function AdminPage() {
 
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-1">
-              Approved Answer
+              Answer
             </label>
             <textarea
               value={newAnswer}
@@ -111,24 +412,73 @@ export function AdminPage() {
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-1">
               Keywords{' '}
-              <span className="text-gray-500 font-normal">(comma-separated)</span>
+              <span className="text-gray-500 font-normal">(Enter or comma to add)</span>
+            </label>
+            <KeywordEditor keywords={newKeywords} onChange={setNewKeywords} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Category <span className="text-gray-500 font-normal">(optional)</span>
+              </label>
+              <CategoryInput
+                value={newCategory}
+                onChange={setNewCategory}
+                categories={categories}
+                className="w-full px-4 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Tags <span className="text-gray-500 font-normal">(optional)</span>
+              </label>
+              <KeywordEditor keywords={newTags} onChange={setNewTags} placeholder="soc2, customer-facing" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Source pages{' '}
+              <span className="text-gray-500 font-normal">(optional, Notion page titles or URLs)</span>
+            </label>
+            <KeywordEditor
+              keywords={newSourcePages}
+              onChange={setNewSourcePages}
+              placeholder="Security Homepage, https://docs.zenlytic.com/..."
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Review by{' '}
+              <span className="text-gray-500 font-normal">(optional, e.g. the next audit date)</span>
             </label>
             <input
-              type="text"
-              value={newKeywords}
-              onChange={(e) => setNewKeywords(e.target.value)}
-              placeholder="ISO, ISO 27001, certification"
-              className="w-full px-4 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent"
+              type="date"
+              value={newReviewBy}
+              onChange={(e) => setNewReviewBy(e.target.value)}
+              className="px-4 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent"
             />
           </div>
 
-          <button
-            type="submit"
-            disabled={saving || !newQuestion.trim() || !newAnswer.trim()}
-            className="px-4 py-2 bg-zenlytic-green text-white font-medium rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-all"
-          >
-            {saving ? 'Saving...' : 'Add Q&A Pair'}
-          </button>
+          {newDuplicates ? (
+            <DuplicateWarning
+              duplicates={newDuplicates}
+              answer={newAnswer}
+              onMerge={handleMergeNewPair}
+              onSaveAnyway={() => addPair(true)}
+              onCancel={() => setNewDuplicates(null)}
+            />
+          ) : (
+            <button
+              type="submit"
+              disabled={saving || !newQuestion.trim() || !newAnswer.trim()}
+              className="px-4 py-2 bg-zenlytic-green text-white font-medium rounded-lg hover:bg-opacity-90 disabled:opacity-50 transition-all"
+            >
+              {saving ? 'Saving...' : 'Add Draft'}
+            </button>
+          )}
         </form>
       </div>
 
@@ -138,11 +488,101 @@ export function AdminPage() {
         </div>
       )}
 
+      <ExpiringAnswers
+        pairs={pairs}
+        onSetReviewBy={async (pair, reviewBy) => (await handleUpdatePair(pair, { reviewBy })) === true}
+      />
+
       {/* Existing pairs */}
       <div>
-        <h2 className="text-lg font-semibold text-white font-heading mb-4">
-          Approved Q&A Pairs ({pairs.length})
-        </h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white font-heading">
+            Answer Library ({pairs.length})
+          </h2>
+          {selectedIds.size > 0 && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={bulkReviewBy}
+                onChange={(e) => setBulkReviewBy(e.target.value)}
+                aria-label="Review-by date for selected pairs"
+                className="px-2 py-1 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-sm text-white focus:ring-1 focus:ring-zenlytic-cyan focus:border-transparent"
+              />
+              <button
+                type="button"
+                onClick={handleSetReviewBySelected}
+                disabled={settingReviewBy || !bulkReviewBy}
+                className="px-3 py-1.5 bg-white/5 text-gray-300 text-sm rounded-lg border border-white/10 hover:text-zenlytic-cyan disabled:opacity-50 transition-colors"
+              >
+                {settingReviewBy ? 'Saving...' : 'Set review-by'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedIds(new Set())}
+                className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                Clear selection
+              </button>
+              <button
+                type="button"
+                onClick={handleDeleteSelected}
+                disabled={deleting}
+                className="px-3 py-1.5 bg-red-500/20 text-red-400 text-sm font-medium rounded-lg border border-red-500/30 hover:bg-red-500/30 disabled:opacity-50 transition-all"
+              >
+                {deleting ? 'Deleting...' : `Delete selected (${selectedIds.size})`}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {FILTERS.map((f) => (
+            <button
+              key={f.id}
+              type="button"
+              onClick={() => setFilter(f.id)}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                filter === f.id
+                  ? 'bg-zenlytic-cyan/10 text-zenlytic-cyan border-zenlytic-cyan/40'
+                  : 'bg-white/5 text-gray-400 border-white/10 hover:text-white'
+              }`}
+            >
+              {f.label} ({pairs.filter(f.matches).length})
+            </button>
+          ))}
+          {awaitingMyReview > 0 && (
+            <span className="text-sm text-yellow-400">
+              {awaitingMyReview} awaiting your review
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-3">
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              aria-label="Filter by category"
+              className="px-2 py-1.5 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-sm text-white"
+            >
+              <option value="">All categories</option>
+              {usedCategories.map((category) => (
+                <option key={category} value={category}>
+                  {category} ({pairs.filter((p) => activeFilter.matches(p) && p.category === category).length})
+                </option>
+              ))}
+              <option value={UNCATEGORIZED}>
+                Uncategorized ({pairs.filter((p) => activeFilter.matches(p) && !p.category).length})
+              </option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={groupByCategory}
+                onChange={(e) => setGroupByCategory(e.target.checked)}
+                className="accent-zenlytic-cyan"
+              />
+              Group by category
+            </label>
+          </div>
+        </div>
 
         {loading ? (
           <div className="flex items-center gap-2 text-gray-400">
@@ -152,56 +592,47 @@ export function AdminPage() {
             </svg>
             Loading...
           </div>
-        ) : pairs.length === 0 ? (
-          <p className="text-gray-500">No Q&A pairs yet.</p>
+        ) : visiblePairs.length === 0 ? (
+          <p className="text-gray-500">
+            {filter === 'review' ? 'Nothing waiting for review.' : 'No Q&A pairs here yet.'}
+          </p>
         ) : (
-          <div className="space-y-3">
-            {pairs.map((pair) => (
-              <div
-                key={pair.id}
-                className="p-4 card-dark rounded-lg"
-              >
-                <p className="text-sm font-medium text-white mb-2">
-                  Q: {pair.q}
-                </p>
-                <p className="text-sm text-gray-300 mb-2">A: {pair.a}</p>
-                {pair.keywords.length > 0 && (
-                  <div className="flex flex-wrap gap-1">
-                    {pair.keywords.map((kw, i) => (
-                      <span
-                        key={i}
-                        className="text-xs px-2 py-0.5 bg-white/5 text-gray-400 rounded border border-white/10"
-                      >
-                        {kw}
-                      </span>
-                    ))}
-                  </div>
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <div key={group.category ?? 'all'}>
+                {group.category && (
+                  <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-2">
+                    {group.category} ({group.pairs.length})
+                  </h3>
                 )}
+                <div className="space-y-3">
+                  {group.pairs.map((pair) => (
+                    <QAPairCard
+                      key={pair.id}
+                      pair={pair}
+                      categories={categories}
+                      currentUserEmail={currentUserEmail}
+                      selected={selectedIds.has(pair.id)}
+                      onToggleSelect={() => toggleSelected(pair.id)}
+                      onSave={handleUpdatePair}
+                      onMerge={handleMergePair}
+                      onSetStatus={handleSetStatus}
+                      onDelete={handleDeletePair}
+                      onRevert={handleRevertPair}
+                    />
+                  ))}
+                </div>
               </div>
             ))}
           </div>
         )}
       </div>
 
-      {/* Knowledge base info */}
-      <div className="p-6 bg-white/5 rounded-xl border border-white/10">
-        <h3 className="font-medium text-white mb-3">Knowledge Sources</h3>
-        <ul className="space-y-2 text-sm text-gray-400">
-          <li className="flex items-center gap-2">
-            <span className="w-2 h-2 bg-zenlytic-green rounded-full" />
-            <strong className="text-gray-300">Notion (Live)</strong> - Employee Handbook, Security
-            Homepage, Engineering Wiki
-          </li>
-          <li className="flex items-center gap-2">
-            <span className="w-2 h-2 bg-zenlytic-blue rounded-full" />
-            <strong className="text-gray-300">Q&A Pairs</strong> - {pairs.length} approved responses
-          </li>
-          <li className="flex items-center gap-2">
-            <span className="w-2 h-2 bg-zenlytic-cyan rounded-full" />
-            <strong className="text-gray-300">docs.zenlytic.com</strong> - Product documentation
-          </li>
-        </ul>
-      </div>
+      {/* Spreadsheet sync */}
+      <QAImportExport pairs={pairs} onImported={fetchPairs} />
+
+      {/* Knowledge base status */}
+      <KnowledgeBaseStatus />
     </div>
   );
 }
@@ -1,16 +1,86 @@
 import { useState } from 'react';
+import { SaveAnswerForm } from '../components/SaveAnswerForm';
+import { CitationChips, type CitationCheck, type CitedSource } from '../components/CitationChips';
+
+// The answer as submitted by Claude; answer is rendered from it
+interface StructuredAnswer {
+  verdict: 'Yes' | 'No' | 'Partial' | 'N/A';
+  lead?: string;
+  shortAnswer: string;
+  detail?: string;
+  citations: Array<{ source: string }>;
+  // 0-1
+  confidence: number;
+  needsReview: boolean;
+}
 
 interface ApiResponse {
   answer: string;
   citations: string[];
   searches: string[];
+  // Cited Q&A pairs past their review-by date
+  overdueQAPairs: Array<{ id: string; q: string; reviewBy: string }>;
+  provenance: 'approved_library' | 'generated';
+  // The approved pair a library answer came from, and how closely it matched (0-1)
+  qaMatch?: { id: string; q: string; similarity: number; adapted: boolean };
+  structured: StructuredAnswer;
+  citationChecks: CitationCheck[];
+  // Each cited source with its link and supporting excerpt
+  citedSources: CitedSource[];
+}
+
+// Events from /api/ask-stream
+type StreamEvent =
+  | { type: 'search'; step: string }
+  | { type: 'found'; sources: string[]; citations: string[] }
+  | { type: 'text'; text: string }
+  | { type: 'reset' }
+  | { type: 'done'; result: ApiResponse }
+  | { type: 'error'; error: string; details: string };
+
+// What has arrived so far while an answer streams in
+interface StreamProgress {
+  steps: string[];
+  found: { sources: string[]; citations: string[] } | null;
+  answer: string;
+}
+
+/**
+ * Read Server-Sent Events from a response body, calling onEvent with each
+ * event's data as it arrives
+ */
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (event: StreamEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; the last part may be incomplete
+    const parts = buffer.split('\n\n');
+    buffer = parts.pop() || '';
+    for (const part of parts) {
+      const data = part
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice(6))
+        .join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
 }
 
 export function AskPage() {
   const [question, setQuestion] = useState('');
   const [context, setContext] = useState('');
   const [response, setResponse] = useState<ApiResponse | null>(null);
+  const [askedQuestion, setAskedQuestion] = useState('');
+  const [savingAnswer, setSavingAnswer] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<StreamProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -20,9 +90,11 @@ export function AskPage() {
     setLoading(true);
     setError(null);
     setResponse(null);
+    setSavingAnswer(false);
+    setProgress({ steps: [], found: null, answer: '' });
 
     try {
-      const res = await fetch('/api/ask', {
+      const res = await fetch('/api/ask-stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -31,17 +103,43 @@ export function AskPage() {
         }),
       });
 
-      if (!res.ok) {
-        const data = await res.json();
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
         throw new Error(data.error || `HTTP ${res.status}`);
       }
 
-      const data = await res.json();
-      setResponse(data);
+      let result: ApiResponse | null = null;
+      await readEvents(res.body, (event) => {
+        switch (event.type) {
+          case 'search':
+            setProgress((p) => p && { ...p, steps: [...p.steps, event.step] });
+            break;
+          case 'found':
+            setProgress((p) => p && { ...p, found: { sources: event.sources, citations: event.citations } });
+            break;
+          case 'text':
+            setProgress((p) => p && { ...p, answer: p.answer + event.text });
+            break;
+          case 'reset':
+            setProgress((p) => p && { ...p, answer: '' });
+            break;
+          case 'done':
+            result = event.result;
+            break;
+          case 'error':
+            throw new Error(`${event.error}: ${event.details}`);
+        }
+      });
+
+      // The function can hit its timeout mid-answer
+      if (!result) throw new Error('The answer was cut off before it finished. Please try again.');
+      setResponse(result);
+      setAskedQuestion(question);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
@@ -123,12 +221,81 @@ export function AskPage() {
         </div>
       )}
 
-      {response && (
+      {progress && (
         <div className="p-6 card-dark rounded-xl space-y-4">
           <div>
             <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-2">
-              Response
+              {progress.answer ? 'Answering' : 'Searching'}
             </h3>
+            {progress.answer ? (
+              <div
+                className="prose prose-invert prose-sm max-w-none text-gray-200"
+                dangerouslySetInnerHTML={{ __html: formatAnswer(progress.answer) + '<span class="animate-pulse">▍</span>' }}
+              />
+            ) : (
+              <p className="text-sm text-gray-500 animate-pulse">Looking through the knowledge base...</p>
+            )}
+          </div>
+
+          {(progress.steps.length > 0 || progress.found) && (
+            <div className="pt-4 border-t border-white/10 space-y-1">
+              {progress.steps.map((step, i) => (
+                <p key={i} className="text-xs font-mono text-gray-500">
+                  {step}
+                </p>
+              ))}
+              {progress.found && progress.found.citations.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Found: {progress.found.citations.join(' · ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {response && (
+        <div className="p-6 card-dark rounded-xl space-y-4">
+          {response.overdueQAPairs.length > 0 && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+              <p>⚠ This answer relies on approved answers that are past their review-by date:</p>
+              <ul className="mt-1 ml-4 list-disc">
+                {response.overdueQAPairs.map((pair) => (
+                  <li key={pair.id}>
+                    {pair.q} <span className="text-yellow-400/70">(review was due {pair.reviewBy})</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1">Check them against current sources before sending.</p>
+            </div>
+          )}
+
+          <div>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide">
+                Response
+              </h3>
+              {response.qaMatch && (
+                <span
+                  className="text-xs px-2 py-0.5 bg-zenlytic-green/10 text-zenlytic-green rounded border border-zenlytic-green/30"
+                  title={`Matched "${response.qaMatch.q}"`}
+                >
+                  {response.qaMatch.adapted ? 'Adapted from approved library' : 'Approved library, verbatim'} ·{' '}
+                  {Math.round(response.qaMatch.similarity * 100)}% match
+                </span>
+              )}
+              <span
+                className="text-xs px-2 py-0.5 bg-white/5 text-gray-400 rounded border border-white/10"
+                title="How directly the sources support the answer"
+              >
+                {Math.round(response.structured.confidence * 100)}% confidence
+              </span>
+              {response.structured.needsReview && (
+                <span className="text-xs px-2 py-0.5 bg-yellow-500/10 text-yellow-400 rounded border border-yellow-500/30">
+                  Needs review
+                </span>
+              )}
+            </div>
             <div
               className="prose prose-invert prose-sm max-w-none text-gray-200"
               dangerouslySetInnerHTML={{ __html: formatAnswer(response.answer) }}
@@ -140,20 +307,59 @@ export function AskPage() {
               <h4 className="text-sm font-medium text-gray-400 mb-2">
                 Citations
               </h4>
-              <ul className="space-y-1">
-                {response.citations.map((citation, i) => (
-                  <li
-                    key={i}
-                    className="text-sm text-gray-300 flex items-start gap-2"
-                  >
-                    <span className="text-zenlytic-cyan">•</span>
-                    {citation}
-                  </li>
-                ))}
-              </ul>
+              {response.citationChecks.some((check) => check.status === 'unverified') && (
+                <div className="mb-2 text-sm text-yellow-400">
+                  <p>⚠ Some citations don't match the sources retrieved for this answer. Check them before sending:</p>
+                  <ul className="mt-1 ml-4 list-disc">
+                    {response.citationChecks
+                      .filter((check) => check.status === 'unverified')
+                      .map((check) => (
+                        <li key={check.citation}>
+                          {check.citation} <span className="text-yellow-400/70">({check.reason})</span>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+              {response.citedSources.length > 0 ? (
+                <CitationChips sources={response.citedSources} checks={response.citationChecks} />
+              ) : (
+                <ul className="space-y-1">
+                  {response.citations.map((citation, i) => (
+                    <li
+                      key={i}
+                      className="text-sm text-gray-300 flex items-start gap-2"
+                    >
+                      <span className="text-zenlytic-cyan">•</span>
+                      {citation}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
 
+          {response.provenance === 'generated' && (
+            <div className="pt-4 border-t border-white/10">
+              {savingAnswer ? (
+                <SaveAnswerForm
+                  question={askedQuestion}
+                  answer={response.answer}
+                  citations={response.citations}
+                  onClose={() => setSavingAnswer(false)}
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setSavingAnswer(true)}
+                  className="text-sm text-gray-400 hover:text-zenlytic-cyan transition-colors"
+                >
+                  Save as approved answer
+                </button>
+              )}
+          </div>
+          )}
+
           {response.searches.length > 0 && (
             <details className="pt-4 border-t border-white/10">
               <summary className="text-sm text-gray-500 cursor-pointer hover:text-gray-300">
@@ -2,6 +2,13 @@ import { useState, useRef } from 'react';
 import * as XLSX from 'xlsx';
 import * as mammoth from 'mammoth';
 import * as pdfjsLib from 'pdfjs-dist';
+import { SaveAnswerForm } from '../components/SaveAnswerForm';
+import {
+  CitationChips,
+  findCitationCheck,
+  type CitationCheck,
+  type CitedSource,
+} from '../components/CitationChips';
 
 // Set up PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
@@ -14,11 +21,44 @@ interface Question {
   lineNumber?: number;
 }
 
+interface OverdueQAPair {
+  id: string;
+  q: string;
+  reviewBy: string;
+}
+
+interface QAMatch {
+  id: string;
+  q: string;
+  similarity: number;
+  adapted: boolean;
+}
+
+// The answer as submitted by Claude; answer is rendered from it
+interface StructuredAnswer {
+  verdict: 'Yes' | 'No' | 'Partial' | 'N/A';
+  lead?: string;
+  shortAnswer: string;
+  detail?: string;
+  citations: Array<{ source: string }>;
+  // 0-1
+  confidence: number;
+  needsReview: boolean;
+}
+
 interface Result {
   id: string;
   question: string;
   answer: string;
   citations: string[];
+  // Cited Q&A pairs past their review-by date
+  overdueQAPairs?: OverdueQAPair[];
+  provenance?: 'approved_library' | 'generated';
+  // The approved pair a library answer came from
+  qaMatch?: QAMatch;
+  structured?: StructuredAnswer;
+  citationChecks?: CitationCheck[];
+  citedSources?: CitedSource[];
   error?: string;
   originalRow?: Record<string, string>;
 }
@@ -29,7 +69,69 @@ interface ColumnMapping {
   startRow: number; // 1-indexed row to start from
 }
 
+/**
+ * Where a result's answer came from, for the export
+ */
+function sourceLabel(result: Result): string {
+  if (result.error) return '';
+  if (!result.qaMatch) return 'Generated';
+  const match = `${Math.round(result.qaMatch.similarity * 100)}% match`;
+  return result.qaMatch.adapted ? `Approved library, adapted (${match})` : `Approved library (${match})`;
+}
+
+/**
+ * Citations that don't match the sources retrieved for a result, with why
+ */
+function unverifiedCitations(result: Result): string[] {
+  return (result.citationChecks || [])
+    .filter((check) => check.status === 'unverified')
+    .map((check) => (check.reason ? `${check.citation} (${check.reason})` : check.citation));
+}
+
+/**
+ * Spreadsheet columns for a result: the answer split into a Yes/No column
+ * and a comment, alongside the full response
+ */
+function exportRow(result: Result): Record<string, string> {
+  const structured = result.structured;
+  return {
+    ...(result.originalRow || {}),
+    Question: result.question,
+    'Yes/No': structured?.verdict || '',
+    'Comment': structured ? [structured.shortAnswer, structured.detail].filter(Boolean).join('\n\n') : '',
+    'AI Response': result.answer,
+    'Citations': result.citations.join('; '),
+    'Unverified Citations': unverifiedCitations(result).join('; '),
+    'Confidence': structured ? `${Math.round(structured.confidence * 100)}%` : '',
+    'Needs Review': structured?.needsReview ? 'Yes' : '',
+    'Source': sourceLabel(result),
+    'Error': result.error || '',
+  };
+}
+
+/**
+ * The sources appendix: one row per cited source, numbered like the
+ * questions in the export
+ */
+function sourceRows(results: Result[]): Array<Record<string, string>> {
+  return results.flatMap((result, i) =>
+    (result.citedSources || []).map((source) => ({
+      'Question #': String(i + 1),
+      Question: result.question,
+      'Cited As': source.citation,
+      'Title': source.title,
+      'Type': source.type,
+      'URL': source.url || '',
+      'Last Updated': source.lastUpdated?.slice(0, 10) || '',
+      'Excerpt': source.excerpt || '',
+      'Check': findCitationCheck(result.citationChecks || [], source)?.status || '',
+    }))
+  );
+}
+
 type OutputFormat = 'excel' | 'word' | 'csv';
+// Question order, or least confident first so the weakest answers are checked first
+type ResultOrder = 'question' | 'confidence';
 type FileType = 'spreadsheet' | 'document' | 'unknown';
 
 export function BatchPage() {
@@ -43,9 +145,12 @@ export function BatchPage() {
   const [error, setError] = useState<string | null>(null);
   const [showMapping, setShowMapping] = useState(false);
   const [customInstructions, setCustomInstructions] = useState('');
+  const [adaptApproved, setAdaptApproved] = useState(false);
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('excel');
   const [fileType, setFileType] = useState<FileType>('unknown');
   const [fileName, setFileName] = useState<string>('');
+  const [savingResultId, setSavingResultId] = useState<string | null>(null);
+  const [resultOrder, setResultOrder] = useState<ResultOrder>('question');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const parseSpreadsheet = async (buffer: ArrayBuffer): Promise<{ allRows: string[][], colLetters: string[] }> => {
@@ -249,19 +354,20 @@ export function BatchPage() {
 
         console.log(`Processing question ${i + 1}/${questions.length}: ${q.question.slice(0, 50)}...`);
 
-        // Build the question with custom instructions
-        let questionText = q.question;
-        if (customInstructions) {
-          questionText = `${q.question}\n\n[Instructions: ${customInstructions}]`;
-        }
+        // Custom instructions go with the context so the question itself can
+        // still match an approved answer
+        const context = [q.context, customInstructions && `Additional instructions: ${customInstructions}`]
+          .filter(Boolean)
+          .join('\n\n');
 
         try {
           const res = await fetch('/api/ask', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              question: questionText,
-              context: q.context,
+              question: q.question,
+              context: context || undefined,
+              adaptApproved,
             }),
           });
 
@@ -277,6 +383,12 @@ export function BatchPage() {
             question: q.question,
             answer: data.answer || '',
             citations: data.citations || [],
+            overdueQAPairs: data.overdueQAPairs || [],
+            provenance: data.provenance,
+            qaMatch: data.qaMatch,
+            structured: data.structured,
+            citationChecks: data.citationChecks,
+            citedSources: data.citedSources,
             originalRow: q.originalRow,
           });
         } catch (err) {
@@ -304,36 +416,42 @@ export function BatchPage() {
     }
   };
 
+  // Failed questions sort first, then by confidence; ties keep question order.
+  // Only the list on screen is sorted: downloads keep the questionnaire's order.
+  const sortedResults =
+    resultOrder === 'confidence'
+      ? [...results].sort(
+          (a, b) => (a.error ? -1 : a.structured?.confidence ?? 1) - (b.error ? -1 : b.structured?.confidence ?? 1)
+        )
+      : results;
+
   const downloadResults = () => {
     if (results.length === 0) return;
 
     const timestamp = Date.now();
 
     if (outputFormat === 'excel') {
-      const data = results.map((r) => ({
-        ...(r.originalRow || {}),
-        Question: r.question,
-        'AI Response': r.answer,
-        'Citations': r.citations.join('; '),
-        'Error': r.error || '',
-      }));
+      const data = results.map(exportRow);
 
       const worksheet = XLSX.utils.json_to_sheet(data);
       const workbook = XLSX.utils.book_new();
       XLSX.utils.book_append_sheet(workbook, worksheet, 'Responses');
+      const sources = sourceRows(results);
+      if (sources.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sources), 'Sources');
+      }
       XLSX.writeFile(workbook, `rfi-responses-${timestamp}.xlsx`);
 
     } else if (outputFormat === 'csv') {
-      const data = results.map((r) => ({
-        ...(r.originalRow || {}),
-        Question: r.question,
-        'AI Response': r.answer,
-        'Citations': r.citations.join('; '),
-        'Error': r.error || '',
-      }));
+      const data = results.map(exportRow);
 
       const worksheet = XLSX.utils.json_to_sheet(data);
-      const csv = XLSX.utils.sheet_to_csv(worksheet);
+      let csv = XLSX.utils.sheet_to_csv(worksheet);
+      // CSV has no second sheet, so the sources follow the responses
+      const sources = sourceRows(results);
+      if (sources.length > 0) {
+        csv += `\n\nSources\n${XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(sources))}`;
+      }
       const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
       const link = document.createElement('a');
       link.href = URL.createObjectURL(blob);
@@ -358,11 +476,28 @@ export function BatchPage() {
             <p><strong>Response:</strong></p>
             <p style="background: #f5f5f5; padding: 10px; border-left: 3px solid #05fcdf;">${r.answer}</p>
             ${r.citations.length > 0 ? `<p style="font-size: 12px; color: #666;"><em>Citations: ${r.citations.join(', ')}</em></p>` : ''}
+            ${r.structured ? `<p style="font-size: 12px; color: #666;"><em>Confidence: ${Math.round(r.structured.confidence * 100)}%${r.structured.needsReview ? ' · Needs review' : ''}</em></p>` : ''}
+            ${unverifiedCitations(r).length > 0 ? `<p style="font-size: 12px; color: #b45309;"><em>Unverified citations: ${unverifiedCitations(r).join('; ')}</em></p>` : ''}
+            ${r.qaMatch ? `<p style="font-size: 12px; color: #666;"><em>Source: ${sourceLabel(r)}</em></p>` : ''}
             ${r.error ? `<p style="color: red;"><strong>Error:</strong> ${r.error}</p>` : ''}
           </div>
         `;
       });
 
+      const sources = sourceRows(results);
+      if (sources.length > 0) {
+        html += '<h2 style="page-break-before: always;">Sources</h2>';
+        sources.forEach((source) => {
+          const title = source.URL ? `<a href="${source.URL}">${source.Title}</a>` : source.Title;
+          html += `
+            <div style="margin-bottom: 12px;">
+              <p><strong>Q${source['Question #']}:</strong> ${title}${source['Last Updated'] ? ` <span style="color: #666;">(updated ${source['Last Updated']})</span>` : ''}</p>
+              ${source.Excerpt ? `<p style="font-size: 12px; color: #444; border-left: 3px solid #ddd; padding-left: 8px;">${source.Excerpt}</p>` : ''}
+            </div>
+          `;
+        });
+      }
+
       html += '</body></html>';
 
       const blob = new Blob([html], { type: 'application/msword' });
@@ -429,6 +564,19 @@ export function BatchPage() {
               className="w-full px-4 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-zenlytic-cyan focus:border-transparent resize-none text-sm"
               rows={2}
             />
+            <label className="mt-2 flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={adaptApproved}
+                onChange={(e) => setAdaptApproved(e.target.checked)}
+                className="accent-zenlytic-cyan"
+              />
+              Adapt approved answers to each question's wording and these instructions
+            </label>
+            <p className="mt-1 text-xs text-gray-500">
+              Questions that repeat an approved answer get it word for word, without the instructions, unless this is
+              checked. The lead, facts and citations are kept either way.
+            </p>
           </div>
 
           {/* Output Format Selection */}
@@ -630,16 +778,27 @@ export function BatchPage() {
             <h2 className="text-lg font-semibold text-white font-heading">
               Results ({results.length}/{questions.length})
             </h2>
-            <button
-              onClick={downloadResults}
-              className="px-4 py-2 bg-zenlytic-cyan text-zenlytic-dark text-sm font-medium rounded-lg hover:bg-opacity-90 transition-all"
-            >
-              Download as {outputFormat === 'excel' ? 'Excel' : outputFormat === 'word' ? 'Word' : 'CSV'}
-            </button>
+            <div className="flex items-center gap-3">
+              <select
+                value={resultOrder}
+                onChange={(e) => setResultOrder(e.target.value as ResultOrder)}
+                className="px-3 py-2 bg-zenlytic-dark-tertiary border border-white/10 rounded-lg text-sm text-white"
+                aria-label="Sort results"
+              >
+                <option value="question">Question order</option>
+                <option value="confidence">Least confident first</option>
+              </select>
+              <button
+                onClick={downloadResults}
+                className="px-4 py-2 bg-zenlytic-cyan text-zenlytic-dark text-sm font-medium rounded-lg hover:bg-opacity-90 transition-all"
+              >
+                Download as {outputFormat === 'excel' ? 'Excel' : outputFormat === 'word' ? 'Word' : 'CSV'}
+              </button>
+            </div>
           </div>
 
           <div className="space-y-3 max-h-96 overflow-y-auto">
-            {results.map((result) => (
+            {sortedResults.map((result) => (
               <div
                 key={result.id}
                 className={`p-4 rounded-lg border ${
@@ -655,12 +814,60 @@ export function BatchPage() {
                   <p className="text-sm text-red-400">{result.error}</p>
                 ) : (
                   <>
+                    {result.qaMatch && (
+                      <p className="text-xs text-zenlytic-green mb-1" title={`Matched "${result.qaMatch.q}"`}>
+                        {sourceLabel(result)}
+                      </p>
+                    )}
+                    {result.structured && (
+                      <p className="text-xs text-gray-500 mb-1">
+                        {Math.round(result.structured.confidence * 100)}% confidence
+                        {result.structured.needsReview && <span className="text-yellow-400"> · Needs review</span>}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-300">{result.answer}</p>
-                    {result.citations.length > 0 && (
-                      <p className="text-xs text-gray-500 mt-2">
-                        Sources: {result.citations.join(', ')}
+                    {result.citedSources && result.citedSources.length > 0 ? (
+                      <div className="mt-2">
+                        <CitationChips sources={result.citedSources} checks={result.citationChecks || []} />
+                      </div>
+                    ) : (
+                      result.citations.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          Sources: {result.citations.join(', ')}
+                        </p>
+                      )
+                    )}
+                    {unverifiedCitations(result).length > 0 && (
+                      <p className="text-xs text-yellow-400 mt-2">
+                        ⚠ Unverified citations: {unverifiedCitations(result).join('; ')}
                       </p>
                     )}
+                    {result.overdueQAPairs && result.overdueQAPairs.length > 0 && (
+                      <p className="text-xs text-yellow-400 mt-2">
+                        ⚠ Relies on approved answers past their review-by date:{' '}
+                        {result.overdueQAPairs.map((pair) => `${pair.q} (due ${pair.reviewBy})`).join('; ')}
+                      </p>
+                    )}
+                    {result.provenance !== 'approved_library' && (
+                      <div className="mt-2">
+                        {savingResultId === result.id ? (
+                          <SaveAnswerForm
+                            question={result.question}
+                            answer={result.answer}
+                            citations={result.citations}
+                            onClose={() => setSavingResultId(null)}
+                          />
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => setSavingResultId(result.id)}
+                            className="text-xs text-gray-400 hover:text-zenlytic-cyan transition-colors"
+                          >
+                            Save as approved answer
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </>
                 )}
               </div>
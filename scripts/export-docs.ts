@@ -0,0 +1,198 @@
+/**
+ * Docs Export Script
+ *
+ * Indexes the docs submodule (synced from the zenlytic-docs repo) into
+ * config/docs-index/ so searchDocs and getDocsPage never walk the submodule
+ * at runtime.
+ * Run with: npx tsx scripts/export-docs.ts
+ *
+ * Requires the docs submodule to be checked out:
+ *   git submodule update --init docs
+ */
+
+import { writeFileSync, mkdirSync, existsSync, readFileSync, readdirSync } from 'fs';
+import { join, dirname, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { execSync } from 'child_process';
+import { buildBM25Index } from '../netlify/functions/_shared/bm25.js';
+import type { DocsIndex, DocsPage } from '../netlify/functions/_shared/docs-tools.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DOCS_BASE_URL = 'https://docs.zenlytic.com';
+
+// Docs sections to index
+const DOCS_SECTIONS = [
+  'authentication-and-security',
+  'data-sources',
+  'legal-and-support',
+];
+
+/**
+ * Find every markdown file under a directory
+ */
+function findMarkdownFiles(dir: string): string[] {
+  const results: string[] = [];
+
+  for (const item of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, item.name);
+    if (item.isDirectory()) {
+      results.push(...findMarkdownFiles(fullPath));
+    } else if (item.name.endsWith('.md')) {
+      results.push(fullPath);
+    }
+  }
+
+  return results.sort();
+}
+
+/**
+ * Split YAML frontmatter from the body. Only flat `key: value` pairs are
+ * read, which is all the docs use.
+ */
+function parseFrontmatter(raw: string): { data: Record<string, string>; body: string } {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: raw };
+
+  const data: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const kv = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (kv) {
+      data[kv[1]] = kv[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+
+  return { data, body: raw.slice(match[0].length) };
+}
+
+/**
+ * Extract the markdown headings of a page, skipping fenced code blocks
+ */
+function extractHeadings(body: string): string[] {
+  const headings: string[] = [];
+  let inCode = false;
+
+  for (const line of body.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCode = !inCode;
+      continue;
+    }
+    const match = !inCode && line.match(/^#{1,4}\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push(match[1]);
+  }
+
+  return headings;
+}
+
+/**
+ * Canonical docs.zenlytic.com URL for a page path (relative, without .md)
+ */
+function canonicalUrl(pagePath: string, slug?: string): string {
+  if (slug) {
+    return `${DOCS_BASE_URL}/${slug.replace(/^\//, '')}`;
+  }
+  return `${DOCS_BASE_URL}/${pagePath.replace(/(^|\/)index$/, '')}`;
+}
+
+/**
+ * Title from a file name: "single-sign-on" -> "Single Sign On"
+ */
+function titleFromPath(pagePath: string): string {
+  const name = pagePath.split('/').pop() || pagePath;
+  return name
+    .split(/[-_]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Commit and commit date of the docs submodule, when git is available
+ */
+function getDocsCommit(docsPath: string): { commit?: string; committedAt?: string } {
+  try {
+    const [commit, committedAt] = execSync('git log -1 --format=%H%n%cI', { cwd: docsPath, encoding: 'utf-8' })
+      .trim()
+      .split('\n');
+    return { commit, committedAt };
+  } catch {
+    console.warn('⚠️  Could not read docs submodule commit');
+    return {};
+  }
+}
+
+/**
+ * Main export function
+ */
+function main() {
+  const docsPath = join(__dirname, '..', 'docs');
+  const outputDir = join(__dirname, '..', 'config', 'docs-index');
+
+  if (!existsSync(docsPath) || readdirSync(docsPath).length === 0) {
+    console.error(`❌ Docs submodule not found at ${docsPath}`);
+    console.error('   Check it out with: git submodule update --init docs');
+    process.exit(1);
+  }
+
+  console.log('🚀 Starting docs export...');
+  console.log('━'.repeat(50));
+
+  const pages: DocsPage[] = [];
+  for (const section of DOCS_SECTIONS) {
+    const sectionPath = join(docsPath, section);
+    if (!existsSync(sectionPath)) {
+      console.warn(`⚠️  Section not found: ${section}`);
+      continue;
+    }
+
+    const files = findMarkdownFiles(sectionPath);
+    console.log(`📚 ${section}: ${files.length} pages`);
+
+    for (const file of files) {
+      const pagePath = relative(docsPath, file).replace(/\\/g, '/').replace(/\.md$/, '');
+      const { data, body } = parseFrontmatter(readFileSync(file, 'utf-8'));
+      const headings = extractHeadings(body);
+
+      pages.push({
+        path: pagePath,
+        section,
+        title: data.title || headings[0] || titleFromPath(pagePath),
+        description: data.description || '',
+        url: canonicalUrl(pagePath, data.slug),
+        headings,
+        content: body.trim(),
+      });
+    }
+  }
+
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+
+  const index: DocsIndex = {
+    exportedAt: new Date().toISOString(),
+    ...getDocsCommit(docsPath),
+    pages,
+  };
+  writeFileSync(join(outputDir, 'index.json'), JSON.stringify(index, null, 2));
+
+  // Title and headings repeated so they count for more than body text
+  const bm25Index = buildBM25Index(
+    pages.map((p) => ({
+      id: `docs:${p.path}`,
+      text: `${p.title}\n${p.title}\n${p.description}\n${p.headings.join('\n')}\n${p.content}`,
+    }))
+  );
+  writeFileSync(join(outputDir, 'bm25-index.json'), JSON.stringify(bm25Index));
+
+  console.log('\n' + '━'.repeat(50));
+  console.log('📊 Export Summary:');
+  console.log(`   Total pages: ${pages.length}`);
+  console.log(`   Docs commit: ${index.commit || 'unknown'} (${index.committedAt || 'unknown date'})`);
+  console.log(`   Index size: ${(JSON.stringify(index).length / 1024).toFixed(1)} KB`);
+  console.log(`   BM25 index size: ${(JSON.stringify(bm25Index).length / 1024).toFixed(1)} KB (${Object.keys(bm25Index.postings).length} terms)`);
+  console.log(`\n📁 Docs index written to: ${outputDir}`);
+  console.log('\n✅ Export complete!');
+}
+
+main();
@@ -0,0 +1,131 @@
+/**
+ * Incremental Notion export against a recorded API fixture
+ * (scripts/fixtures/notion-api.json). Run with: npm test
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  exportPage,
+  exportNotion,
+  indexPreviousExport,
+  type IndexedPage,
+  type NotionClient,
+} from './export-notion.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+interface NotionFixture {
+  pages: Record<string, any>;
+  blocks: Record<string, any[]>;
+  databases: Record<string, any[]>;
+}
+
+const fixture: NotionFixture = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'notion-api.json'), 'utf-8'));
+
+const SECURITY_HOMEPAGE = '6b8833be227a437a8f846f9cd5c896e4';
+const EMPLOYEE_HANDBOOK = 'dc73011524e54feaa2a69d78d6e5164e';
+
+/**
+ * A client answering from the fixture, recording which pages' blocks were
+ * downloaded. Pages missing from the fixture fail like the API does.
+ */
+function fixtureClient(): { client: NotionClient; fetchedBlocks: string[] } {
+  const fetchedBlocks: string[] = [];
+  const client = {
+    pages: {
+      retrieve: async ({ page_id }: { page_id: string }) => {
+        const page = fixture.pages[page_id];
+        if (!page) throw new Error(`Could not find page with ID: ${page_id}`);
+        return { id: page_id, ...page };
+      },
+    },
+    blocks: {
+      children: {
+        list: async ({ block_id }: { block_id: string }) => {
+          fetchedBlocks.push(block_id);
+          return { results: fixture.blocks[block_id] || [], has_more: false, next_cursor: null };
+        },
+      },
+    },
+    databases: {
+      query: async ({ database_id }: { database_id: string }) => ({
+        results: fixture.databases[database_id] || [],
+        has_more: false,
+        next_cursor: null,
+      }),
+    },
+  };
+  return { client: client as unknown as NotionClient, fetchedBlocks };
+}
+
+function previousPage(page: Partial<IndexedPage> & Pick<IndexedPage, 'id' | 'title'>): IndexedPage {
+  return {
+    parent: 'Security Homepage',
+    parentId: SECURITY_HOMEPAGE,
+    content: 'Previously exported content',
+    keywords: [],
+    lastUpdated: '2024-04-01T00:00:00.000Z',
+    embedsOtherContent: false,
+    ...page,
+  };
+}
+
+test('an unchanged page reuses its previous export without downloading blocks', async () => {
+  const { client, fetchedBlocks } = fixtureClient();
+  const previous = indexPreviousExport([previousPage({ id: 'access-control', title: 'CC6.1.1 Access Control' })]);
+
+  const [page] = await exportPage(client, previous, {
+    id: 'access-control',
+    parent: 'Security Homepage',
+    parentId: SECURITY_HOMEPAGE,
+  });
+
+  assert.equal(page.content, 'Previously exported content');
+  assert.deepEqual(fetchedBlocks, []);
+});
+
+test('a page showing a child database is re-rendered even when unchanged', async () => {
+  const { client, fetchedBlocks } = fixtureClient();
+  const previous = indexPreviousExport([
+    previousPage({ id: 'vendor-list', title: 'Vendor List', embedsOtherContent: true }),
+  ]);
+
+  const [page] = await exportPage(client, previous, {
+    id: 'vendor-list',
+    parent: 'Security Homepage',
+    parentId: SECURITY_HOMEPAGE,
+  });
+
+  assert.deepEqual(fetchedBlocks, ['vendor-list']);
+  assert.match(page.content, /AWS \| Hosting/);
+  assert.equal(page.embedsOtherContent, true);
+});
+
+test('a root page that fails keeps its previous export', async () => {
+  const { client } = fixtureClient();
+  const handbook = previousPage({
+    id: EMPLOYEE_HANDBOOK,
+    title: 'Employee Handbook',
+    parent: 'root',
+    parentId: null,
+  });
+  const handbookChild = previousPage({
+    id: 'remote-work',
+    title: 'Remote Work',
+    parent: 'Employee Handbook',
+    parentId: EMPLOYEE_HANDBOOK,
+  });
+
+  const pages = await exportNotion(client, [handbook, handbookChild]);
+  const ids = pages.map((page) => page.id);
+
+  assert.ok(ids.includes(EMPLOYEE_HANDBOOK));
+  assert.ok(ids.includes('remote-work'));
+  // The roots the fixture has are still exported
+  assert.ok(ids.includes(SECURITY_HOMEPAGE));
+  assert.ok(ids.includes('access-control'));
+});
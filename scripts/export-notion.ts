@@ -5,12 +5,28 @@
  * Run with: npx tsx scripts/export-notion.ts
  *
  * Requires NOTION_TOKEN environment variable (loaded from .env).
+ *
+ * Pass --reindex to rebuild the search indexes from the existing index.json
+ * without calling the Notion API.
+ *
+ * Pass --incremental to only download pages whose last_edited_time changed
+ * since the previous index.json; unchanged pages are reused as they are.
+ * Pages showing child databases or synced blocks are always downloaded,
+ * since edits to those don't change the page's last_edited_time.
+ *
+ * Pass --summary-file <path> to also write the change summary (pages added,
+ * changed and removed) to a file, e.g. for a commit message.
  */
 
 import { Client } from '@notionhq/client';
 import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
+import { buildBM25Index } from '../netlify/functions/_shared/bm25.js';
+import { buildLSAVectors } from '../netlify/functions/_shared/lsa.js';
+import { extractKeywords } from '../netlify/functions/_shared/thesaurus.js';
+import { extractControlIds, toAlias, type ControlRegistry } from '../netlify/functions/_shared/controls.js';
+import { renderPage, getPageTitle } from '../netlify/functions/_shared/notion-render.js';
 
 // Load .env file manually (avoid adding dotenv dependency)
 const __filename = fileURLToPath(import.meta.url);
@@ -38,6 +54,12 @@ if (existsSync(envPath)) {
   }
 }
 
+const REINDEX_ONLY = process.argv.includes('--reindex');
+const INCREMENTAL = process.argv.includes('--incremental');
+const SUMMARY_FILE = process.argv.includes('--summary-file')
+  ? process.argv[process.argv.indexOf('--summary-file') + 1]
+  : undefined;
+
 // Initialize Notion client
 const notion = new Client({
   auth: process.env.NOTION_TOKEN,
@@ -63,243 +85,439 @@ const ROOT_PAGES = {
   },
 };
 
-interface IndexedPage {
+export interface IndexedPage {
   id: string;
   title: string;
   parent: string;
+  // Notion id of the parent page, null for root pages. Missing in indexes
+  // written before incremental export existed.
+  parentId?: string | null;
   content: string;
   keywords: string[];
+  // Notion's last_edited_time for the page
   lastUpdated: string;
+  // Content includes child database rows or synced blocks from elsewhere,
+  // whose edits don't change lastUpdated. Missing in indexes written before
+  // this was recorded.
+  embedsOtherContent?: boolean;
+}
+
+// The parts of the Notion client the export uses, so a recorded fixture can
+// stand in for the API in tests
+export type NotionClient = Pick<Client, 'pages' | 'blocks' | 'databases'>;
+
+interface ExportChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+// Pages previously exported, by id and by parent id
+interface PreviousExport {
+  byId: Map<string, IndexedPage>;
+  children: Map<string, IndexedPage[]>;
 }
 
+// Child pages are followed at most this many levels below a root page
+const MAX_DEPTH = 4;
+// Pause after downloading a page's blocks, to stay under Notion's rate limit
+const FETCH_DELAY_MS = 200;
+
 interface NotionIndex {
   exportedAt: string;
   pages: IndexedPage[];
 }
 
+interface Passage {
+  id: string;
+  pageId: string;
+  title: string;
+  parent: string;
+  headingPath: string[];
+  content: string;
+}
+
+// Sections longer than this are split further on line boundaries
+const MAX_PASSAGE_CHARS = 1500;
+
 /**
- * Extract plain text from rich text array
+ * Split a page into passages along heading boundaries.
+ *
+ * Each passage carries the path of headings above it so a match deep in a
+ * long policy still tells Claude which section it came from.
  */
-function extractText(richText: any[]): string {
-  if (!richText) return '';
-  return richText.map((t: any) => t.plain_text || '').join('');
+function splitIntoPassages(page: IndexedPage): Passage[] {
+  const passages: Passage[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    const content = current.join('\n').trim();
+    if (content) {
+      passages.push({
+        id: `${page.id}#${passages.length}`,
+        pageId: page.id,
+        title: page.title,
+        parent: page.parent,
+        headingPath: headings.map((h) => h.text),
+        content,
+      });
+    }
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const line of page.content.split('\n')) {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: heading[2].trim() });
+      continue;
+    }
+
+    if (currentLength + line.length > MAX_PASSAGE_CHARS && current.length > 0) {
+      flush();
+    }
+    current.push(line);
+    currentLength += line.length + 1;
+  }
+  flush();
+
+  return passages;
 }
 
 /**
- * Get page title from properties
+ * Page ids appear with and without dashes depending on where they come from
  */
-function getPageTitle(page: any): string {
-  const titleProp = page.properties?.title?.title || page.properties?.Name?.title;
-  return titleProp?.[0]?.plain_text || 'Untitled';
+function normalizeId(id: string): string {
+  return id.replace(/-/g, '');
 }
 
 /**
- * Fetch all blocks from a page (with pagination)
+ * Index the pages of a previous export for reuse
  */
-async function fetchAllBlocks(pageId: string): Promise<any[]> {
-  const blocks: any[] = [];
-  let cursor: string | undefined;
-
-  do {
-    const response = await notion.blocks.children.list({
-      block_id: pageId,
-      page_size: 100,
-      start_cursor: cursor,
-    });
-    blocks.push(...response.results);
-    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
-  } while (cursor);
-
-  return blocks;
+export function indexPreviousExport(pages: IndexedPage[]): PreviousExport {
+  const byId = new Map<string, IndexedPage>();
+  const children = new Map<string, IndexedPage[]>();
+
+  for (const page of pages) {
+    byId.set(normalizeId(page.id), page);
+    if (page.parentId) {
+      const parentId = normalizeId(page.parentId);
+      children.set(parentId, [...(children.get(parentId) || []), page]);
+    }
+  }
+
+  return { byId, children };
 }
 
 /**
- * Convert blocks to plain text content
+ * A previously exported page and everything below it
  */
-function blocksToText(blocks: any[]): string {
-  return blocks
-    .map((block: any) => {
-      const type = block.type;
-      const richText = block[type]?.rich_text;
-      const text = extractText(richText);
-
-      switch (type) {
-        case 'heading_1':
-          return `# ${text}`;
-        case 'heading_2':
-          return `## ${text}`;
-        case 'heading_3':
-          return `### ${text}`;
-        case 'bulleted_list_item':
-          return `• ${text}`;
-        case 'numbered_list_item':
-          return `- ${text}`;
-        case 'to_do':
-          return `${block[type]?.checked ? '☑' : '☐'} ${text}`;
-        case 'divider':
-          return '---';
-        case 'code':
-          return `\`\`\`\n${text}\n\`\`\``;
-        case 'quote':
-          return `> ${text}`;
-        default:
-          return text;
-      }
-    })
-    .filter(Boolean)
-    .join('\n');
+function previousSubtree(previous: PreviousExport, pageId: string): IndexedPage[] {
+  const page = previous.byId.get(normalizeId(pageId));
+  if (!page) return [];
+  const children = previous.children.get(normalizeId(pageId)) || [];
+  return [page, ...children.flatMap((child) => previousSubtree(previous, child.id))];
 }
 
 /**
- * Extract keywords from content
+ * Export a page and, recursively, its child pages.
+ *
+ * Page metadata is always read, but blocks are only downloaded when the
+ * page's last_edited_time differs from the previous export, or the page
+ * shows content from elsewhere (embedsOtherContent). Adding or removing a
+ * child page edits its parent, so an unchanged page's children are the ones
+ * recorded last time.
  */
-function extractKeywords(title: string, content: string): string[] {
-  const text = `${title} ${content}`.toLowerCase();
-  const keywords = new Set<string>();
-
-  // Extract CC control numbers
-  const ccMatches = text.match(/cc[\d\.]+/gi) || [];
-  ccMatches.forEach((m) => keywords.add(m.toUpperCase()));
-
-  // Common security/compliance terms
-  const terms = [
-    'soc2', 'soc 2', 'encryption', 'aes', 'tls', 'mfa', 'authentication',
-    'access control', 'training', 'security', 'compliance', 'audit',
-    'incident', 'breach', 'gdpr', 'privacy', 'backup', 'disaster recovery',
-    'rpo', 'rto', 'business continuity', 'penetration test', 'vulnerability',
-    'employee', 'onboarding', 'background check', 'policy', 'procedure',
-    'data classification', 'retention', 'byod', 'mdm', 'sso', 'saml',
-    'aws', 'infrastructure', 'network', 'firewall', 'logging', 'monitoring',
-    'vendor', 'third party', 'subprocessor', 'api', 'integration'
+export async function exportPage(
+  client: NotionClient,
+  previous: PreviousExport,
+  page: { id: string; title?: string; parent: string; parentId: string | null },
+  depth = 0
+): Promise<IndexedPage[]> {
+  const indent = '  '.repeat(depth);
+  const meta = (await client.pages.retrieve({ page_id: page.id })) as any;
+
+  if (meta.archived || meta.in_trash) {
+    console.log(`${indent}🗑️  ${page.title || page.id} (archived, skipped)`);
+    return [];
+  }
+
+  const title = page.title || getPageTitle(meta);
+  const lastUpdated: string = meta.last_edited_time;
+  const before = previous.byId.get(normalizeId(page.id));
+  const unchanged =
+    before !== undefined &&
+    before.parentId !== undefined &&
+    before.embedsOtherContent === false &&
+    before.lastUpdated === lastUpdated;
+
+  let content: string;
+  let childRefs: Array<{ id: string; title?: string }>;
+  let embedsOtherContent: boolean;
+
+  if (unchanged) {
+    console.log(`${indent}📄 ${title} (unchanged)`);
+    content = before.content;
+    embedsOtherContent = false;
+    childRefs = (previous.children.get(normalizeId(page.id)) || []).map((child) => ({ id: child.id }));
+  } else {
+    console.log(`${indent}📄 ${title}`);
+    const rendered = await renderPage(client, page.id);
+    content = rendered.content;
+    childRefs = rendered.childPages;
+    embedsOtherContent = rendered.embedsOtherContent;
+
+    // Rate limiting - be nice to Notion API
+    await new Promise((r) => setTimeout(r, FETCH_DELAY_MS));
+  }
+
+  const pages: IndexedPage[] = [
+    {
+      id: page.id,
+      title,
+      parent: page.parent,
+      parentId: page.parentId,
+      content,
+      keywords: extractKeywords(title, content),
+      lastUpdated,
+      embedsOtherContent,
+    },
   ];
 
-  terms.forEach((term) => {
-    if (text.includes(term)) {
-      keywords.add(term);
+  if (depth >= MAX_DEPTH) return pages;
+
+  for (const child of childRefs) {
+    try {
+      pages.push(...(await exportPage(client, previous, { ...child, parent: title, parentId: page.id }, depth + 1)));
+    } catch (err) {
+      // Keep what we had rather than dropping the page from the index
+      const kept = previousSubtree(previous, child.id);
+      console.error(`${indent}  ❌ Error fetching ${child.title || child.id}${kept.length > 0 ? ', keeping previous export' : ''}:`, err);
+      pages.push(...kept);
     }
-  });
+  }
 
-  return Array.from(keywords);
+  return pages;
 }
 
 /**
- * Recursively fetch child pages
+ * Export every root page and its children. Pass the previous export's
+ * pages to skip downloading pages that haven't changed.
  */
-async function fetchChildPages(
-  parentId: string,
-  parentName: string,
-  depth = 0
-): Promise<IndexedPage[]> {
-  if (depth > 3) return []; // Limit recursion depth
-
-  const pages: IndexedPage[] = [];
-  const indent = '  '.repeat(depth);
+export async function exportNotion(client: NotionClient, previousPages: IndexedPage[] = []): Promise<IndexedPage[]> {
+  const previous = indexPreviousExport(previousPages);
+  const allPages: IndexedPage[] = [];
 
-  try {
-    const blocks = await fetchAllBlocks(parentId);
-
-    // Find child_page blocks
-    const childPageBlocks = blocks.filter((b) => b.type === 'child_page');
-
-    for (const childBlock of childPageBlocks) {
-      const childId = childBlock.id;
-      const childTitle = childBlock.child_page?.title || 'Untitled';
-      console.log(`${indent}📄 ${childTitle}`);
-
-      try {
-        // Fetch the page content
-        const childBlocks = await fetchAllBlocks(childId);
-        const content = blocksToText(childBlocks);
-        const keywords = extractKeywords(childTitle, content);
-
-        pages.push({
-          id: childId,
-          title: childTitle,
-          parent: parentName,
-          content,
-          keywords,
-          lastUpdated: new Date().toISOString(),
-        });
-
-        // Recursively fetch children
-        const grandchildren = await fetchChildPages(childId, childTitle, depth + 1);
-        pages.push(...grandchildren);
-
-        // Rate limiting - be nice to Notion API
-        await new Promise((r) => setTimeout(r, 200));
-      } catch (err) {
-        console.error(`${indent}  ❌ Error fetching ${childTitle}:`, err);
-      }
+  for (const page of Object.values(ROOT_PAGES)) {
+    console.log(`\n📚 Exporting: ${page.name}`);
+    console.log('─'.repeat(40));
+
+    try {
+      const pages = await exportPage(client, previous, {
+        id: page.id,
+        title: page.name,
+        parent: 'root',
+        parentId: null,
+      });
+      allPages.push(...pages);
+      console.log(`✅ Exported ${pages.length} pages from ${page.name}`);
+    } catch (err) {
+      // Keep what we had rather than dropping the whole tree from the index
+      const kept = previousSubtree(previous, page.id);
+      console.error(`❌ Error exporting ${page.name}${kept.length > 0 ? ', keeping previous export' : ''}:`, err);
+      allPages.push(...kept);
     }
-  } catch (err) {
-    console.error(`Error fetching children of ${parentName}:`, err);
   }
 
-  return pages;
+  return allPages;
 }
 
 /**
- * Export a root page and all its children
+ * Compare two exports page by page
  */
-async function exportRootPage(
-  key: string,
-  page: { id: string; name: string }
-): Promise<IndexedPage[]> {
-  console.log(`\n📚 Exporting: ${page.name}`);
-  console.log('─'.repeat(40));
+function diffExports(previousPages: IndexedPage[], pages: IndexedPage[]): ExportChanges {
+  const before = new Map(previousPages.map((p) => [normalizeId(p.id), p]));
+  const after = new Map(pages.map((p) => [normalizeId(p.id), p]));
+  const changes: ExportChanges = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  for (const [id, page] of after) {
+    const old = before.get(id);
+    if (!old) changes.added.push(page.title.trim());
+    else if (old.title !== page.title || old.content !== page.content) changes.changed.push(page.title.trim());
+    else changes.unchanged++;
+  }
+  for (const [id, page] of before) {
+    if (!after.has(id)) changes.removed.push(page.title.trim());
+  }
 
-  const pages: IndexedPage[] = [];
+  return changes;
+}
 
-  try {
-    // First, get the root page content itself
-    const rootBlocks = await fetchAllBlocks(page.id);
-    const rootContent = blocksToText(rootBlocks);
-    const rootKeywords = extractKeywords(page.name, rootContent);
+/**
+ * Plain-text change summary, suitable for a commit message body
+ */
+function formatChangeSummary(changes: ExportChanges): string {
+  const lines = [
+    `Notion: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed, ${changes.unchanged} unchanged`,
+  ];
+  const sections: Array<[string, string[]]> = [
+    ['Added', changes.added],
+    ['Changed', changes.changed],
+    ['Removed', changes.removed],
+  ];
+  for (const [label, titles] of sections) {
+    if (titles.length > 0) {
+      lines.push('', `${label}:`, ...titles.map((t) => `- ${t}`));
+    }
+  }
+  return lines.join('\n');
+}
 
-    pages.push({
-      id: page.id,
-      title: page.name,
-      parent: 'root',
-      content: rootContent,
-      keywords: rootKeywords,
-      lastUpdated: new Date().toISOString(),
-    });
-
-    // Then fetch all child pages
-    const children = await fetchChildPages(page.id, page.name);
-    pages.push(...children);
-
-    console.log(`✅ Exported ${pages.length} pages from ${page.name}`);
-  } catch (err) {
-    console.error(`❌ Error exporting ${page.name}:`, err);
+/**
+ * Map control ids in page titles, root page keys and page titles to page ids
+ */
+function buildControlRegistry(generatedAt: string, pages: IndexedPage[]): ControlRegistry {
+  const controls: ControlRegistry['controls'] = {};
+  for (const page of pages) {
+    for (const controlId of extractControlIds(page.title)) {
+      controls[controlId] = [...(controls[controlId] || []), { id: page.id, title: page.title.trim() }];
+    }
   }
 
-  return pages;
+  const aliases: ControlRegistry['aliases'] = {};
+  for (const [key, page] of Object.entries(ROOT_PAGES)) {
+    aliases[key] = page.id;
+  }
+  for (const page of pages) {
+    const alias = toAlias(page.title);
+    if (alias && !aliases[alias]) aliases[alias] = page.id;
+  }
+
+  return {
+    generatedAt,
+    controls: Object.fromEntries(Object.entries(controls).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))),
+    aliases,
+  };
+}
+
+/**
+ * Write the search indexes derived from the full index
+ */
+function writeSearchIndexes(outputDir: string, index: NotionIndex): void {
+  const allPages = index.pages;
+
+  // Lightweight search index (just titles, keywords, and snippets)
+  const searchIndex = allPages.map((p) => ({
+    id: p.id,
+    title: p.title,
+    parent: p.parent,
+    keywords: p.keywords,
+    snippet: p.content.slice(0, 500), // First 500 chars
+  }));
+
+  const searchIndexPath = join(outputDir, 'search-index.json');
+  writeFileSync(searchIndexPath, JSON.stringify(searchIndex, null, 2));
+  console.log(`📁 Search index written to: ${searchIndexPath}`);
+
+  // Heading-aware passages, the unit of retrieval. Pages linked from
+  // several parents are exported more than once, so chunk each id once.
+  const uniquePages = [...new Map(allPages.map((p) => [p.id, p])).values()];
+  const passages = uniquePages.flatMap(splitIntoPassages);
+
+  const passagesPath = join(outputDir, 'passages.json');
+  writeFileSync(passagesPath, JSON.stringify(passages, null, 2));
+  console.log(`📁 Passages written to: ${passagesPath}`);
+
+  // BM25 inverted index over passages. Page title and heading path are
+  // included so a section is findable by the name of the policy it sits in.
+  const passageDocs = passages.map((p) => ({
+    id: p.id,
+    text: `${p.title}\n${p.headingPath.join('\n')}\n${p.content}`,
+  }));
+  const bm25Index = buildBM25Index(passageDocs);
+
+  const bm25IndexPath = join(outputDir, 'bm25-index.json');
+  writeFileSync(bm25IndexPath, JSON.stringify(bm25Index));
+  console.log(`📁 BM25 index written to: ${bm25IndexPath}`);
+
+  // LSA vector space for semantic matching, searched at runtime without
+  // any network calls
+  const vectors = buildLSAVectors(passageDocs);
+
+  const vectorsPath = join(outputDir, 'vectors.json');
+  writeFileSync(vectorsPath, JSON.stringify(vectors));
+  console.log(`📁 Vectors written to: ${vectorsPath}`);
+
+  const controls = buildControlRegistry(index.exportedAt, uniquePages);
+
+  const controlsPath = join(outputDir, 'controls.json');
+  writeFileSync(controlsPath, JSON.stringify(controls, null, 2));
+  console.log(`📁 Control registry written to: ${controlsPath}`);
+
+  // Summary
+  console.log('\n━'.repeat(50));
+  console.log('📊 Export Summary:');
+  console.log(`   Total pages: ${allPages.length}`);
+  console.log(`   Total passages: ${passages.length}`);
+  console.log(`   Controls: ${Object.keys(controls.controls).length}`);
+  console.log(`   Full index size: ${(JSON.stringify(index).length / 1024).toFixed(1)} KB`);
+  console.log(`   Search index size: ${(JSON.stringify(searchIndex).length / 1024).toFixed(1)} KB`);
+  console.log(`   BM25 index size: ${(JSON.stringify(bm25Index).length / 1024).toFixed(1)} KB (${Object.keys(bm25Index.postings).length} terms)`);
+  console.log(`   Vectors size: ${(JSON.stringify(vectors).length / 1024).toFixed(1)} KB (${vectors.terms.length} terms, ${vectors.dimensions} dims)`);
 }
 
 /**
  * Main export function
  */
-async function main() {
+export async function main() {
+  const outputDir = join(__dirname, '..', 'config', 'notion-index');
+  const indexPath = join(outputDir, 'index.json');
+
+  if (REINDEX_ONLY) {
+    if (!existsSync(indexPath)) {
+      console.error(`❌ No existing index at ${indexPath}, run a full export first`);
+      process.exit(1);
+    }
+    console.log('🔁 Rebuilding keywords and search indexes from existing index.json...');
+    const index: NotionIndex = JSON.parse(readFileSync(indexPath, 'utf-8'));
+    // Keywords come from config/search-synonyms.json, which may have changed
+    for (const page of index.pages) {
+      page.keywords = extractKeywords(page.title, page.content);
+    }
+    writeFileSync(indexPath, JSON.stringify(index, null, 2));
+    writeSearchIndexes(outputDir, index);
+    console.log('\n✅ Reindex complete!');
+    return;
+  }
+
   if (!process.env.NOTION_TOKEN) {
     console.error('❌ NOTION_TOKEN environment variable required');
     console.error('   Set it with: export NOTION_TOKEN=your_token');
     process.exit(1);
   }
 
-  console.log('🚀 Starting Notion export...');
-  console.log('━'.repeat(50));
+  const previousPages: IndexedPage[] = existsSync(indexPath)
+    ? (JSON.parse(readFileSync(indexPath, 'utf-8')) as NotionIndex).pages
+    : [];
 
-  const allPages: IndexedPage[] = [];
+  console.log(INCREMENTAL ? '🚀 Starting incremental Notion export...' : '🚀 Starting Notion export...');
+  console.log('━'.repeat(50));
 
-  // Export each root page
-  for (const [key, page] of Object.entries(ROOT_PAGES)) {
-    const pages = await exportRootPage(key, page);
-    allPages.push(...pages);
+  if (INCREMENTAL && previousPages.length > 0 && previousPages.every((p) => p.parentId === undefined)) {
+    console.log('ℹ️  Previous index predates incremental export, every page will be downloaded');
   }
 
+  const allPages = await exportNotion(notion, INCREMENTAL ? previousPages : []);
+
   // Create output directory
-  const outputDir = join(__dirname, '..', 'config', 'notion-index');
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
   }
@@ -311,30 +529,25 @@ async function main() {
   };
 
   // Write the full index
-  const indexPath = join(outputDir, 'index.json');
   writeFileSync(indexPath, JSON.stringify(index, null, 2));
   console.log(`\n📁 Full index written to: ${indexPath}`);
 
-  // Also create a lightweight search index (just titles, keywords, and snippets)
-  const searchIndex = allPages.map((p) => ({
-    id: p.id,
-    title: p.title,
-    parent: p.parent,
-    keywords: p.keywords,
-    snippet: p.content.slice(0, 500), // First 500 chars
-  }));
+  writeSearchIndexes(outputDir, index);
 
-  const searchIndexPath = join(outputDir, 'search-index.json');
-  writeFileSync(searchIndexPath, JSON.stringify(searchIndex, null, 2));
-  console.log(`📁 Search index written to: ${searchIndexPath}`);
+  const summary = formatChangeSummary(diffExports(previousPages, allPages));
+  console.log(`\n📝 Changes:\n${summary}`);
+  if (SUMMARY_FILE) {
+    writeFileSync(SUMMARY_FILE, summary + '\n');
+    console.log(`📁 Change summary written to: ${SUMMARY_FILE}`);
+  }
 
-  // Summary
-  console.log('\n━'.repeat(50));
-  console.log('📊 Export Summary:');
-  console.log(`   Total pages: ${allPages.length}`);
-  console.log(`   Full index size: ${(JSON.stringify(index).length / 1024).toFixed(1)} KB`);
-  console.log(`   Search index size: ${(JSON.stringify(searchIndex).length / 1024).toFixed(1)} KB`);
   console.log('\n✅ Export complete!');
 }
 
-main().catch(console.error);
+// Only run when invoked directly, so tests can import the export functions
+if (process.argv[1] && resolve(process.argv[1]) === __filename) {
+  main().catch((err) => {
+    console.error('❌ Export failed:', err);
+    process.exitCode = 1;
+  });
+}